@@ -0,0 +1,480 @@
+import type { AnimationConfig, BaseShape, CanvasDocument, CircuitStep, ColorValue, Connection, ConnectionAnchor, EasingConfig, GradientStop, Keyframe, KeyframeValue, LoaderStateConfig, LoaderStateMotion, ShapeEffectConfig, ShapeEffectTrigger, SubCircuitConfig, TimelineTrack } from '~/types/canvas'
+import { createDefaultAnimationConfig, createDefaultLoaderStates, createDefaultShapeEffectConfig, createDefaultSubCircuitConfig } from './useCanvasState'
+import { getConnectionGroups } from './useCircuitGraph'
+import { EASING_TYPES, createDefaultEasing } from './useEasing'
+import { STATE_MOTIONS } from './useLoaderStates'
+import { MAX_DOT_COUNT, MAX_DOT_FALLOFF, MAX_SUB_CIRCUIT_LAPS, MIN_DOT_SPACING, PLAYBACK_DIRECTIONS, PROGRESS_MODES, SNAKE_CAPS, SNAKE_COLOR_MODES, TRANSITION_MODES } from './usePathAnimation'
+import { SHAPE_EFFECT_TRIGGERS, SHAPE_EFFECT_TYPES } from './useShapeEffects'
+import { TIMELINE_PROPERTIES } from './useTimeline'
+import type { useCanvasState } from './useCanvasState'
+
+/**
+ * Current schema version written by serializeDocument
+ */
+export const CANVAS_DOCUMENT_VERSION = 2
+
+export const CANVAS_DOCUMENT_EXTENSION = '.loader.json'
+
+/**
+ * Thrown when a document cannot be read (invalid JSON, wrong schema, newer version)
+ */
+export class CanvasDocumentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CanvasDocumentError'
+  }
+}
+
+type RawDocument = Record<string, unknown>
+
+/**
+ * Schema migrations keyed by the version they upgrade from.
+ * When the document layout changes, bump CANVAS_DOCUMENT_VERSION and add an
+ * entry that rewrites version N into version N + 1. New optional fields on
+ * BaseShape or Connection only need a default in normalizeShape/normalizeConnection.
+ */
+const documentMigrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  // v2: explicit circuit order; older designs keep the automatic route
+  1: doc => ({ ...doc, circuitOrder: [] }),
+}
+
+const FALLBACK_COLOR = '#a855f7'  // Purple-500
+const SHAPE_TYPES: BaseShape['type'][] = ['square', 'triangle', 'circle']
+
+function isRecord(value: unknown): value is RawDocument {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return isFiniteNumber(value) ? value : undefined
+}
+
+// Keep a loaded number within [min, max]; anything that can't be kept finite falls back
+function clampNumber(value: number, fallback: number, min: number, max: number = Infinity): number {
+  const clamped = Math.min(max, Math.max(min, value))
+  return Number.isFinite(clamped) ? clamped : fallback
+}
+
+function positiveNumber(value: number, fallback: number): number {
+  return isFiniteNumber(value) && value > 0 ? value : fallback
+}
+
+function normalizeColor(value: unknown, fallback: ColorValue): ColorValue {
+  if (typeof value === 'string') return value
+  if (!isRecord(value) || !Array.isArray(value.stops)) return fallback
+
+  const stops: GradientStop[] = value.stops
+    .filter(isRecord)
+    .filter(stop => isFiniteNumber(stop.offset) && typeof stop.color === 'string')
+    .map(stop => ({
+      offset: Math.max(0, Math.min(1, stop.offset as number)),
+      color: stop.color as string,
+    }))
+  if (stops.length === 0) return fallback
+
+  return {
+    type: value.type === 'radial' ? 'radial' : 'linear',
+    angle: optionalNumber(value.angle),
+    stops,
+  }
+}
+
+function normalizeAnchor(value: unknown): ConnectionAnchor {
+  if (isRecord(value) && isFiniteNumber(value.position)) {
+    return { position: value.position }
+  }
+  return { position: 0 }
+}
+
+function normalizeShape(value: unknown, index: number): BaseShape {
+  if (!isRecord(value)) {
+    throw new CanvasDocumentError(`Shape #${index + 1} is not an object`)
+  }
+  if (typeof value.id !== 'string' || !value.id) {
+    throw new CanvasDocumentError(`Shape #${index + 1} has no id`)
+  }
+  if (!SHAPE_TYPES.includes(value.type as BaseShape['type'])) {
+    throw new CanvasDocumentError(`Shape "${value.id}" has unknown type "${String(value.type)}"`)
+  }
+  if (!isFiniteNumber(value.x) || !isFiniteNumber(value.y)) {
+    throw new CanvasDocumentError(`Shape "${value.id}" has an invalid position`)
+  }
+
+  return {
+    id: value.id,
+    x: value.x,
+    y: value.y,
+    type: value.type as BaseShape['type'],
+    width: optionalNumber(value.width),
+    height: optionalNumber(value.height),
+    radius: optionalNumber(value.radius),
+    fill: normalizeColor(value.fill, FALLBACK_COLOR),
+    opacity: optionalNumber(value.opacity),
+  }
+}
+
+function normalizeConnection(value: unknown, index: number, shapeIds: Set<string>): Connection | null {
+  if (!isRecord(value)) {
+    throw new CanvasDocumentError(`Connection #${index + 1} is not an object`)
+  }
+  if (typeof value.id !== 'string' || !value.id) {
+    throw new CanvasDocumentError(`Connection #${index + 1} has no id`)
+  }
+
+  // Drop connections whose shapes no longer exist rather than failing the whole load
+  if (!shapeIds.has(value.fromShapeId as string) || !shapeIds.has(value.toShapeId as string)) {
+    return null
+  }
+
+  const curveOffset = isRecord(value.curveOffset)
+    && isFiniteNumber(value.curveOffset.x)
+    && isFiniteNumber(value.curveOffset.y)
+    ? { x: value.curveOffset.x, y: value.curveOffset.y }
+    : null
+
+  return {
+    id: value.id,
+    fromShapeId: value.fromShapeId as string,
+    toShapeId: value.toShapeId as string,
+    fromAnchor: normalizeAnchor(value.fromAnchor),
+    toAnchor: normalizeAnchor(value.toAnchor),
+    stroke: normalizeColor(value.stroke, FALLBACK_COLOR),
+    curveOffset,
+  }
+}
+
+function normalizeEasing(value: unknown): EasingConfig {
+  const easing = createDefaultEasing()
+  if (!isRecord(value)) return easing
+
+  if (EASING_TYPES.some(option => option.type === value.type)) {
+    easing.type = value.type as EasingConfig['type']
+  }
+  const points = value.controlPoints
+  if (Array.isArray(points) && points.length === 4 && points.every(isFiniteNumber)) {
+    // x values must stay within 0-1 for the curve to be a function of time
+    const [x1, y1, x2, y2] = points as number[]
+    easing.controlPoints = [Math.max(0, Math.min(1, x1!)), y1!, Math.max(0, Math.min(1, x2!)), y2!]
+  }
+  if (isFiniteNumber(value.steps) && value.steps >= 1) easing.steps = Math.round(value.steps)
+  if (isFiniteNumber(value.bounce)) easing.bounce = Math.max(0, Math.min(1, value.bounce))
+  return easing
+}
+
+// Timing keyed to connections that are gone (or repeats) is dropped. Earlier
+// saves listed it by group in drawing order, so an entry without a connection
+// goes to the first connection of the group at its index
+function normalizeSubCircuits(value: unknown, connections: Connection[]): SubCircuitConfig[] {
+  if (!Array.isArray(value)) return []
+
+  const groups = getConnectionGroups(connections)
+  const subCircuits: SubCircuitConfig[] = []
+  value.forEach((entry, index) => {
+    if (!isRecord(entry)) return
+    const connectionId = typeof entry.connectionId === 'string' ? entry.connectionId : groups[index]?.[0]?.id
+    if (!connectionId || !connections.some(c => c.id === connectionId)) return
+    if (subCircuits.some(s => s.connectionId === connectionId)) return
+
+    const settings = createDefaultSubCircuitConfig(connectionId)
+    if (isFiniteNumber(entry.phaseOffset)) settings.phaseOffset = entry.phaseOffset - Math.floor(entry.phaseOffset)
+    if (isFiniteNumber(entry.speedRatio)) {
+      settings.speedRatio = Math.min(MAX_SUB_CIRCUIT_LAPS, Math.max(1, Math.round(entry.speedRatio)))
+    }
+    settings.reversed = entry.reversed === true
+    subCircuits.push(settings)
+  })
+  return subCircuits
+}
+
+// Unknown or repeated effect types are dropped
+function normalizeShapeEffects(value: unknown): ShapeEffectConfig {
+  const effects = createDefaultShapeEffectConfig()
+  if (!isRecord(value)) return effects
+
+  if (Array.isArray(value.types)) {
+    effects.types = SHAPE_EFFECT_TYPES
+      .map(option => option.type)
+      .filter(type => (value.types as unknown[]).includes(type))
+  }
+  if (SHAPE_EFFECT_TRIGGERS.some(option => option.trigger === value.trigger)) {
+    effects.trigger = value.trigger as ShapeEffectTrigger
+  }
+  if (isFiniteNumber(value.duration)) effects.duration = Math.max(0, value.duration)
+  if (value.easing !== undefined) effects.easing = normalizeEasing(value.easing)
+  if (typeof value.color === 'string') effects.color = value.color
+  return effects
+}
+
+// A keyframe value of the kind its property takes, or undefined when it has none
+function normalizeKeyframeValue(value: unknown, kind: 'number' | 'color' | 'point'): KeyframeValue | undefined {
+  if (kind === 'number') return optionalNumber(value)
+  if (kind === 'color') {
+    const color = normalizeColor(value, '')
+    return color === '' ? undefined : color
+  }
+  if (value === null) return null
+  return isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) ? { x: value.x, y: value.y } : undefined
+}
+
+// Tracks for missing shapes or connections, unknown properties or without usable keyframes are dropped
+function normalizeTimeline(value: unknown, targetIds: Set<string>): TimelineTrack[] {
+  if (!Array.isArray(value)) return []
+
+  const tracks: TimelineTrack[] = []
+  for (const track of value) {
+    if (!isRecord(track) || typeof track.targetId !== 'string' || !targetIds.has(track.targetId)) continue
+    const option = TIMELINE_PROPERTIES.find(o => o.property === track.property)
+    if (!option || !Array.isArray(track.keyframes)) continue
+
+    const keyframes: Keyframe[] = []
+    for (const keyframe of track.keyframes) {
+      if (!isRecord(keyframe) || !isFiniteNumber(keyframe.offset)) continue
+      const keyframeValue = normalizeKeyframeValue(keyframe.value, option.kind)
+      if (keyframeValue === undefined) continue
+      keyframes.push({
+        offset: Math.max(0, Math.min(1, keyframe.offset)),
+        value: keyframeValue,
+        easing: normalizeEasing(keyframe.easing),
+      })
+    }
+    if (keyframes.length === 0) continue
+    tracks.push({
+      targetId: track.targetId,
+      property: option.property,
+      keyframes: keyframes.sort((a, b) => a.offset - b.offset),
+    })
+  }
+  return tracks
+}
+
+// Every state is kept (missing ones get their defaults); overrides for missing
+// shapes or connections, unknown properties or unusable values are dropped
+function normalizeLoaderStates(value: unknown, targetIds: Set<string>): LoaderStateConfig[] {
+  const stored = Array.isArray(value) ? value.filter(isRecord) : []
+  return createDefaultLoaderStates().map((state) => {
+    const raw = stored.find(s => s.name === state.name)
+    if (!raw) return state
+
+    if (STATE_MOTIONS.some(option => option.motion === raw.motion)) state.motion = raw.motion as LoaderStateMotion
+    if (isFiniteNumber(raw.duration)) state.duration = Math.max(0, raw.duration)
+    if (raw.easing !== undefined) state.easing = normalizeEasing(raw.easing)
+    if (Array.isArray(raw.overrides)) {
+      for (const override of raw.overrides) {
+        if (!isRecord(override) || typeof override.targetId !== 'string' || !targetIds.has(override.targetId)) continue
+        const option = TIMELINE_PROPERTIES.find(o => o.property === override.property)
+        const overrideValue = option && normalizeKeyframeValue(override.value, option.kind)
+        if (!option || overrideValue === undefined) continue
+        state.overrides.push({ targetId: override.targetId, property: option.property, value: overrideValue })
+      }
+    }
+    return state
+  })
+}
+
+// Steps for connections that no longer exist (or repeats) are dropped
+function normalizeCircuitOrder(value: unknown, connectionIds: Set<string>): CircuitStep[] {
+  if (!Array.isArray(value)) return []
+
+  const seen = new Set<string>()
+  const order: CircuitStep[] = []
+  for (const step of value) {
+    if (!isRecord(step) || typeof step.connectionId !== 'string') continue
+    if (!connectionIds.has(step.connectionId) || seen.has(step.connectionId)) continue
+    seen.add(step.connectionId)
+    order.push({ connectionId: step.connectionId, reversed: step.reversed === true })
+  }
+  return order
+}
+
+/**
+ * Merge stored animation settings over the defaults, keeping only values whose
+ * type matches the default so settings added later fall back gracefully
+ */
+function normalizeAnimationConfig(value: unknown, targetIds: Set<string>, connections: Connection[]): AnimationConfig {
+  const config = createDefaultAnimationConfig()
+  if (!isRecord(value)) return config
+
+  const target = config as unknown as RawDocument
+  for (const key of Object.keys(target)) {
+    const defaultValue = target[key]
+    const storedValue = value[key]
+    if (storedValue === undefined) continue
+    if (defaultValue === null || typeof storedValue === typeof defaultValue) {
+      target[key] = storedValue
+    }
+  }
+  if (!PLAYBACK_DIRECTIONS.some(option => option.direction === config.direction)) {
+    config.direction = 'forward'
+  }
+  if (!TRANSITION_MODES.some(option => option.mode === config.transitionMode)) {
+    config.transitionMode = 'center'
+  }
+  if (!SNAKE_CAPS.some(option => option.cap === config.snakeCap)) {
+    config.snakeCap = 'round'
+  }
+  if (!SNAKE_COLOR_MODES.some(option => option.mode === config.snakeColorMode)) {
+    config.snakeColorMode = 'connection'
+  }
+  if (!PROGRESS_MODES.some(option => option.mode === config.progressMode)) {
+    config.progressMode = 'loop'
+  }
+  const defaults = createDefaultAnimationConfig()
+  config.speed = positiveNumber(config.speed, defaults.speed)
+  config.loopDuration = clampNumber(config.loopDuration, defaults.loopDuration, 0)
+  config.dotSize = positiveNumber(config.dotSize, defaults.dotSize)
+  config.snakeLength = clampNumber(config.snakeLength, defaults.snakeLength, 0, 1)
+  config.snakeWidth = positiveNumber(config.snakeWidth, defaults.snakeWidth)
+  config.snakeTaper = clampNumber(config.snakeTaper, defaults.snakeTaper, 0, 1)
+  config.snakeFade = clampNumber(config.snakeFade, defaults.snakeFade, 0, 1)
+  config.rotationSpeed = isFiniteNumber(config.rotationSpeed) ? config.rotationSpeed : defaults.rotationSpeed
+  config.progress = clampNumber(config.progress, defaults.progress, 0, 1)
+  config.progressSmoothing = clampNumber(config.progressSmoothing, defaults.progressSmoothing, 0)
+  config.dotCount = Math.min(MAX_DOT_COUNT, Math.max(1, Math.round(config.dotCount)))
+  config.dotSpacing = Math.min(1 / config.dotCount, Math.max(MIN_DOT_SPACING, config.dotSpacing))
+  config.dotFalloff = Math.min(MAX_DOT_FALLOFF, Math.max(0, config.dotFalloff))
+  config.snakeGradient = normalizeColor(value.snakeGradient, defaults.snakeGradient)
+  config.easing = normalizeEasing(value.easing)
+  config.subCircuits = normalizeSubCircuits(value.subCircuits, connections)
+  config.shapeEffects = normalizeShapeEffects(value.shapeEffects)
+  config.timeline = normalizeTimeline(value.timeline, targetIds)
+  config.states = normalizeLoaderStates(value.states, targetIds)
+  return config
+}
+
+function migrateDocument(doc: RawDocument): RawDocument {
+  let version = doc.version
+  if (!isFiniteNumber(version) || !Number.isInteger(version) || version < 1) {
+    throw new CanvasDocumentError('Not a loader document (missing version)')
+  }
+  if (version > CANVAS_DOCUMENT_VERSION) {
+    throw new CanvasDocumentError(
+      `Document was saved by a newer version of the editor (v${version}, supported up to v${CANVAS_DOCUMENT_VERSION})`
+    )
+  }
+
+  let migrated = doc
+  while (version < CANVAS_DOCUMENT_VERSION) {
+    const migration = documentMigrations[version]
+    if (!migration) {
+      throw new CanvasDocumentError(`No migration available from document v${version}`)
+    }
+    migrated = migration(migrated)
+    version += 1
+  }
+  return { ...migrated, version }
+}
+
+/**
+ * Create a plain, versioned document from the current canvas state
+ * The result is a deep copy and safe to keep after the state changes
+ */
+export function serializeDocument(state: Omit<CanvasDocument, 'version'>): CanvasDocument {
+  const copy = JSON.parse(JSON.stringify({
+    shapes: state.shapes,
+    connections: state.connections,
+    animation: state.animation,
+    circuitOrder: state.circuitOrder,
+    selectedColor: state.selectedColor,
+  }))
+
+  return {
+    version: CANVAS_DOCUMENT_VERSION,
+    ...copy,
+    rotation: ((state.rotation % 360) + 360) % 360,
+  }
+}
+
+/**
+ * Parse, migrate and validate a document (JSON string or already-parsed object)
+ * Throws CanvasDocumentError when the input cannot be used
+ */
+export function deserializeDocument(input: string | unknown): CanvasDocument {
+  let raw: unknown = input
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input)
+    } catch {
+      throw new CanvasDocumentError('Document is not valid JSON')
+    }
+  }
+  if (!isRecord(raw)) {
+    throw new CanvasDocumentError('Not a loader document')
+  }
+
+  const doc = migrateDocument(raw)
+  if (!Array.isArray(doc.shapes) || !Array.isArray(doc.connections)) {
+    throw new CanvasDocumentError('Document is missing shapes or connections')
+  }
+
+  const shapes = doc.shapes.map(normalizeShape)
+  const shapeIds = new Set(shapes.map(s => s.id))
+  const connections = doc.connections
+    .map((c, i) => normalizeConnection(c, i, shapeIds))
+    .filter((c): c is Connection => c !== null)
+
+  return {
+    version: CANVAS_DOCUMENT_VERSION,
+    shapes,
+    connections,
+    animation: normalizeAnimationConfig(doc.animation, new Set([...shapeIds, ...connections.map(c => c.id)]), connections),
+    circuitOrder: normalizeCircuitOrder(doc.circuitOrder, new Set(connections.map(c => c.id))),
+    rotation: isFiniteNumber(doc.rotation) ? doc.rotation : 0,
+    selectedColor: normalizeColor(doc.selectedColor, FALLBACK_COLOR),
+  }
+}
+
+export function stringifyDocument(doc: CanvasDocument): string {
+  return JSON.stringify(doc, null, 2)
+}
+
+/**
+ * Trigger a browser download for in-memory content
+ */
+export function downloadFile(contents: BlobPart, filename: string, mimeType: string) {
+  const blob = new Blob([contents], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export function useCanvasDocument(canvasState: ReturnType<typeof useCanvasState>) {
+  function getDocument(): CanvasDocument {
+    return serializeDocument({
+      shapes: canvasState.shapes.value,
+      connections: canvasState.connections.value,
+      animation: canvasState.animationConfig.value,
+      circuitOrder: canvasState.circuitOrder.value,
+      rotation: canvasState.rotation.value,
+      selectedColor: canvasState.selectedColor.value,
+    })
+  }
+
+  function loadDocument(doc: CanvasDocument) {
+    canvasState.replaceState(doc)
+  }
+
+  function saveToFile(name: string = 'loader') {
+    downloadFile(stringifyDocument(getDocument()), `${name}${CANVAS_DOCUMENT_EXTENSION}`, 'application/json')
+  }
+
+  async function openFile(file: File): Promise<CanvasDocument> {
+    const doc = deserializeDocument(await file.text())
+    loadDocument(doc)
+    return doc
+  }
+
+  return {
+    getDocument,
+    loadDocument,
+    saveToFile,
+    openFile,
+  }
+}
@@ -1,6 +1,12 @@
 import { ref, computed } from 'vue'
-import type { BaseShape, Connection, ConnectionAnchor, ToolMode, AlignmentGuide, SpacingGuide, ColorValue } from '~/types/canvas'
+import type { BaseShape, Connection, ConnectionAnchor, ToolMode, AlignmentGuide, SpacingGuide, ColorValue, AnimationConfig, CanvasDocument, CircuitStep, LoaderStateConfig, LoaderStateMotion, LoaderStateName, ShapeEffectConfig, SubCircuitConfig } from '~/types/canvas'
 import { useAlignmentGuides } from './useAlignmentGuides'
+import { getConnectionGroups } from './useCircuitGraph'
+import { createDefaultEasing } from './useEasing'
+import { useHistory } from './useHistory'
+
+// Maximum number of undo steps kept in memory
+const HISTORY_LIMIT = 100
 
 // Utility functions for connection anchors
 
@@ -128,6 +134,30 @@ export function getAnchorPosition(shape: BaseShape, anchor: ConnectionAnchor): {
   return { x: shape.x + width / 2, y: shape.y + height / 2 }
 }
 
+/**
+ * Resolve a connection's endpoints (and curve control point) in canvas coordinates
+ * Returns null when either shape is missing
+ */
+export function getConnectionGeometry(
+  connection: Connection,
+  shapes: BaseShape[]
+): { from: { x: number; y: number }; to: { x: number; y: number }; control: { x: number; y: number } | null } | null {
+  const fromShape = shapes.find(s => s.id === connection.fromShapeId)
+  const toShape = shapes.find(s => s.id === connection.toShapeId)
+  if (!fromShape || !toShape) return null
+
+  const from = getAnchorPosition(fromShape, connection.fromAnchor)
+  const to = getAnchorPosition(toShape, connection.toAnchor)
+  const control = connection.curveOffset === null
+    ? null
+    : {
+        x: (from.x + to.x) / 2 + connection.curveOffset.x,
+        y: (from.y + to.y) / 2 + connection.curveOffset.y,
+      }
+
+  return { from, to, control }
+}
+
 /**
  * Find the nearest anchor position to a given point
  */
@@ -157,6 +187,138 @@ export function findNearestAnchor(
   return bestAnchor
 }
 
+// Get all shapes that are part of the connected constellation via lines
+function getConnectedShapes(shapes: BaseShape[], connections: Connection[]): BaseShape[] {
+  if (connections.length === 0) return [...shapes]
+  
+  // Build set of shape IDs that appear in at least one connection
+  const connectedIds = new Set<string>()
+  for (const conn of connections) {
+    connectedIds.add(conn.fromShapeId)
+    connectedIds.add(conn.toShapeId)
+  }
+  
+  // Return only shapes that appear in at least one connection
+  return shapes.filter(s => connectedIds.has(s.id))
+}
+
+// Calculate the center point of the true visual bounding box of all shapes
+// This accounts for shape sizes (radius, width, height) to get accurate rotation center
+function calculateVisualBoundsCenter(shapesList: BaseShape[]): { x: number; y: number } {
+  if (shapesList.length === 0) return { x: 0, y: 0 }
+  
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+
+  for (const shape of shapesList) {
+    if (shape.type === 'circle') {
+      const radius = shape.radius ?? 20
+      minX = Math.min(minX, shape.x - radius)
+      maxX = Math.max(maxX, shape.x + radius)
+      minY = Math.min(minY, shape.y - radius)
+      maxY = Math.max(maxY, shape.y + radius)
+    } else {
+      // Square and triangle - positioned by top-left corner
+      const width = shape.width ?? 40
+      const height = shape.height ?? 40
+      minX = Math.min(minX, shape.x)
+      maxX = Math.max(maxX, shape.x + width)
+      minY = Math.min(minY, shape.y)
+      maxY = Math.max(maxY, shape.y + height)
+    }
+  }
+
+  return {
+    x: (minX + maxX) / 2,
+    y: (minY + maxY) / 2,
+  }
+}
+
+/**
+ * Rotation pivot of the constellation - only uses shapes connected via lines
+ */
+export function getConstellationCenter(shapes: BaseShape[], connections: Connection[]): { x: number; y: number } {
+  return calculateVisualBoundsCenter(getConnectedShapes(shapes, connections))
+}
+
+/**
+ * Default animation settings for a new canvas
+ */
+export function createDefaultAnimationConfig(): AnimationConfig {
+  return {
+    enabled: false,
+    speed: 1.0,
+    loopDuration: 0,  // Default: follow path length and speed
+    easing: createDefaultEasing(),
+    animationMode: 'dot',
+    direction: 'forward',
+    transitionMode: 'center',
+    dotSize: 8,
+    dotColor: '#d946ef',  // Fuchsia-500
+    dotCount: 1,
+    dotSpacing: 0.08,
+    dotFalloff: 0.6,
+    snakeLength: 0.3,
+    snakeWidth: 5,
+    snakeTaper: 0,
+    snakeFade: 0,
+    snakeCap: 'round',
+    snakeColorMode: 'connection',
+    snakeGradient: {
+      type: 'linear',
+      angle: 0,
+      stops: [
+        { offset: 0, color: '#6366f1' },  // Indigo-500 at the tail
+        { offset: 1, color: '#d946ef' },  // Fuchsia-500 at the head
+      ],
+    },
+    rotationSpeed: 0,  // Default: no rotation
+    subCircuits: [],
+    shapeEffects: createDefaultShapeEffectConfig(),
+    timeline: [],  // Default: shapes and lines stay as drawn
+    progressMode: 'loop',
+    progress: 0,
+    progressSmoothing: 300,
+    states: createDefaultLoaderStates(),
+  }
+}
+
+/**
+ * States as a new design has them: no overrides, and when loading ends the
+ * dot runs on to fill the circuit on success or fades out on error
+ */
+export function createDefaultLoaderStates(): LoaderStateConfig[] {
+  const state = (name: LoaderStateName, motion: LoaderStateMotion): LoaderStateConfig => ({
+    name,
+    motion,
+    overrides: [],
+    duration: 400,
+    easing: { ...createDefaultEasing(), type: 'ease-in-out' },
+  })
+  return [state('loading', 'loop'), state('success', 'fill'), state('error', 'stop')]
+}
+
+export function createDefaultShapeEffectConfig(): ShapeEffectConfig {
+  return {
+    types: [],  // Default: shapes stay static
+    trigger: 'enter',
+    duration: 600,
+    easing: { ...createDefaultEasing(), type: 'ease-in-out' },
+    color: '#ffffff',
+  }
+}
+
+export function createDefaultSubCircuitConfig(connectionId: string): SubCircuitConfig {
+  return {
+    connectionId,
+    phaseOffset: 0,
+    speedRatio: 1,
+    reversed: false,
+  }
+}
+
 export function useCanvasState() {
   const defaultGradient: ColorValue = {
     type: 'linear',
@@ -227,6 +389,9 @@ export function useCanvasState() {
     },
   ])
 
+  // Route the animation follows; empty until the user reorders it (automatic route)
+  const circuitOrder = ref<CircuitStep[]>([])
+
   const currentTool = ref<ToolMode>('square')
   const selectedShapeId = ref<string | null>(null)
   const selectedConnectionId = ref<string | null>(null)
@@ -234,9 +399,39 @@ export function useCanvasState() {
   const selectedColor = ref<ColorValue>(defaultGradient)
   const activeGuides = ref<AlignmentGuide[]>([])
   const spacingGuides = ref<SpacingGuide[]>([])
+  const animationConfig = ref<AnimationConfig>(createDefaultAnimationConfig())
+  // Loader state played in the editor; only a preview, so it is neither saved nor undone
+  const previewState = ref<LoaderStateName>('loading')
+  // Current constellation rotation angle in degrees (advanced by the rotation animation)
+  const rotation = ref(0)
 
   const { computeAlignmentGuides } = useAlignmentGuides()
 
+  // Undo/redo covers the design itself; selection, tool and playback state are not tracked
+  const history = useHistory<{ shapes: BaseShape[]; connections: Connection[]; animation: AnimationConfig; circuitOrder: CircuitStep[] }>({
+    capture: () => ({
+      shapes: shapes.value,
+      connections: connections.value,
+      animation: animationConfig.value,
+      circuitOrder: circuitOrder.value,
+    }),
+    restore: (snapshot) => {
+      shapes.value = snapshot.shapes
+      connections.value = snapshot.connections
+      circuitOrder.value = snapshot.circuitOrder
+      // Keep playback running/stopped as it is - undo only reverts settings
+      animationConfig.value = { ...snapshot.animation, enabled: animationConfig.value.enabled }
+      if (selectedShapeId.value && !shapes.value.some(s => s.id === selectedShapeId.value)) {
+        selectedShapeId.value = null
+      }
+      if (selectedConnectionId.value && !connections.value.some(c => c.id === selectedConnectionId.value)) {
+        selectedConnectionId.value = null
+      }
+      pendingLineStart.value = null
+    },
+    limit: HISTORY_LIMIT,
+  })
+
   function addShape(type: 'square' | 'triangle' | 'circle', x: number, y: number) {
     const id = `shape-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
     const shape: BaseShape = {
@@ -249,15 +444,21 @@ export function useCanvasState() {
       radius: type === 'circle' ? 20 : undefined,
       fill: selectedColor.value,
     }
+    history.record('Add shape')
     shapes.value.push(shape)
     return id
   }
 
   function removeShape(id: string) {
+    history.record('Delete shape')
+    const previousConnections = connections.value
     shapes.value = shapes.value.filter(s => s.id !== id)
     connections.value = connections.value.filter(
       c => c.fromShapeId !== id && c.toShapeId !== id
     )
+    pruneCircuitOrder()
+    pruneSubCircuits(previousConnections)
+    pruneTimeline()
     if (selectedShapeId.value === id) {
       selectedShapeId.value = null
     }
@@ -266,6 +467,7 @@ export function useCanvasState() {
   function updateShapePosition(id: string, x: number, y: number) {
     const shape = shapes.value.find(s => s.id === id)
     if (shape) {
+      history.record('Move shape', `move:${id}`)
       shape.x = x
       shape.y = y
     }
@@ -307,6 +509,7 @@ export function useCanvasState() {
   function updateShapeColor(id: string, color: ColorValue) {
     const shape = shapes.value.find(s => s.id === id)
     if (shape) {
+      history.record('Change shape color')
       shape.fill = color
     }
   }
@@ -315,6 +518,7 @@ export function useCanvasState() {
     const shape = shapes.value.find(s => s.id === id)
     if (!shape) return
     
+    history.record('Resize shape', `resize:${id}`)
     if (shape.type === 'circle') {
       const currentRadius = shape.radius ?? 20
       shape.radius = Math.max(10, currentRadius * scale)
@@ -327,6 +531,7 @@ export function useCanvasState() {
   }
 
   function scaleAllShapes(scaleFactor: number) {
+    history.record('Scale shapes', 'scale-all')
     shapes.value.forEach(shape => {
       if (shape.type === 'circle') {
         const currentRadius = shape.radius ?? 20
@@ -414,6 +619,8 @@ export function useCanvasState() {
     const allShapes = shapes.value
     if (allShapes.length < 2) return
 
+    history.record('Make symmetric')
+
     // 1. Find center of bounding box
     const center = calculateBoundingBoxCenter(allShapes)
 
@@ -594,6 +801,7 @@ export function useCanvasState() {
     }
 
     const id = `connection-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    history.record('Add connection')
     connections.value.push({ 
       id, 
       fromShapeId, 
@@ -606,15 +814,61 @@ export function useCanvasState() {
   }
 
   function removeConnection(id: string) {
+    history.record('Delete connection')
+    const previousConnections = connections.value
     connections.value = connections.value.filter(c => c.id !== id)
+    pruneCircuitOrder()
+    pruneSubCircuits(previousConnections)
+    pruneTimeline()
     if (selectedConnectionId.value === id) {
       selectedConnectionId.value = null
     }
   }
 
+  // Drop route steps whose connection is gone
+  function pruneCircuitOrder() {
+    const ids = new Set(connections.value.map(c => c.id))
+    circuitOrder.value = circuitOrder.value.filter(step => ids.has(step.connectionId))
+  }
+
+  // Circuit timing keyed to a deleted connection moves to another line of the
+  // group it was in, or is dropped when none is left
+  function pruneSubCircuits(previousConnections: Connection[]) {
+    const ids = new Set(connections.value.map(c => c.id))
+    const groups = getConnectionGroups(previousConnections)
+    const subCircuits: SubCircuitConfig[] = []
+    for (const settings of animationConfig.value.subCircuits) {
+      const group = groups.find(g => g.some(c => c.id === settings.connectionId)) ?? []
+      const connectionId = [settings.connectionId, ...group.map(c => c.id)].find(candidate => ids.has(candidate)
+        && !animationConfig.value.subCircuits.some(other => other !== settings && other.connectionId === candidate)
+        && !subCircuits.some(other => other.connectionId === candidate))
+      if (connectionId) subCircuits.push({ ...settings, connectionId })
+    }
+    animationConfig.value.subCircuits = subCircuits
+  }
+
+  // Drop keyframes and state overrides of shapes and connections that are gone
+  function pruneTimeline() {
+    const ids = new Set([...shapes.value, ...connections.value].map(item => item.id))
+    animationConfig.value.timeline = animationConfig.value.timeline.filter(track => ids.has(track.targetId))
+    animationConfig.value.states = animationConfig.value.states.map(state => ({
+      ...state,
+      overrides: state.overrides.filter(override => ids.has(override.targetId)),
+    }))
+  }
+
+  /**
+   * Replace the animation route (pass [] to go back to the automatic route)
+   */
+  function setCircuitOrder(order: CircuitStep[]) {
+    history.record('Reorder circuit')
+    circuitOrder.value = order.map(step => ({ ...step }))
+  }
+
   function updateConnectionColor(id: string, color: ColorValue) {
     const connection = connections.value.find(c => c.id === id)
     if (connection) {
+      history.record('Change connection color')
       connection.stroke = color
     }
   }
@@ -622,6 +876,7 @@ export function useCanvasState() {
   function updateConnectionCurveOffset(id: string, offset: { x: number; y: number } | null) {
     const connection = connections.value.find(c => c.id === id)
     if (connection) {
+      history.record('Bend connection', `curve:${id}`)
       connection.curveOffset = offset
     }
   }
@@ -633,6 +888,7 @@ export function useCanvasState() {
   ) {
     const connection = connections.value.find(c => c.id === connectionId)
     if (connection) {
+      history.record('Move connection anchor', `anchor:${connectionId}:${anchorType}`)
       if (anchorType === 'from') {
         connection.fromAnchor = anchor
       } else {
@@ -642,6 +898,18 @@ export function useCanvasState() {
   }
 
 
+  /**
+   * Merge animation setting changes; slider drags on the same setting coalesce
+   * into one history entry. Play/pause alone is not recorded.
+   */
+  function updateAnimationConfig(config: Partial<AnimationConfig>) {
+    const settingKeys = Object.keys(config).filter(key => key !== 'enabled')
+    if (settingKeys.length > 0) {
+      history.record('Change animation settings', `animation:${settingKeys.sort().join(',')}`)
+    }
+    Object.assign(animationConfig.value, config)
+  }
+
   function selectConnection(id: string | null) {
     selectedConnectionId.value = id
     // Clear shape selection when selecting a connection
@@ -753,9 +1021,31 @@ export function useCanvasState() {
     }
   }
 
+  /**
+   * Replace the whole design (e.g. when opening a saved document)
+   * Clears selections and any in-progress line so nothing points at stale ids
+   */
+  function replaceState(state: Omit<CanvasDocument, 'version'>) {
+    history.record('Open document')
+    shapes.value = state.shapes
+    connections.value = state.connections
+    animationConfig.value = state.animation
+    circuitOrder.value = state.circuitOrder
+    rotation.value = state.rotation
+    selectedColor.value = state.selectedColor
+    selectedShapeId.value = null
+    selectedConnectionId.value = null
+    pendingLineStart.value = null
+    clearGuides()
+  }
+
   return {
     shapes,
     connections,
+    animationConfig,
+    circuitOrder,
+    rotation,
+    previewState,
     currentTool,
     selectedShapeId,
     selectedConnectionId,
@@ -774,6 +1064,7 @@ export function useCanvasState() {
     updateConnectionColor,
     updateConnectionAnchor,
     updateConnectionCurveOffset,
+    setCircuitOrder,
     setTool,
     selectShape,
     selectConnection,
@@ -784,5 +1075,13 @@ export function useCanvasState() {
     computeGuidesForDrag,
     clearGuides,
     applySymmetry,
+    replaceState,
+    updateAnimationConfig,
+    undo: history.undo,
+    redo: history.redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    beginHistoryGesture: history.beginGesture,
+    endHistoryGesture: history.endGesture,
   }
 }
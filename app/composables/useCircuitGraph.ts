@@ -0,0 +1,176 @@
+import type { CircuitStep, Connection } from '~/types/canvas'
+
+/**
+ * How each group of connected shapes can be walked as one animation route
+ * Groups run side by side, so only jumps within a group count
+ * - circuit: every group is one closed walk, so the loop never jumps
+ * - path: every group is one walk, but some end at a different shape than they start
+ * - broken: the dot has to jump at least once
+ */
+export type CircuitWalk = 'circuit' | 'path' | 'broken'
+
+export interface CircuitGraphAnalysis {
+  walk: CircuitWalk
+  // Shape ids of each connected group of shapes, in the order they were first drawn
+  components: string[][]
+  // Shapes where an odd number of lines meet (walks can only start or end there)
+  oddShapeIds: string[]
+  // Fewest jumps any route through all connections needs (summed over groups)
+  minimumJumps: number
+}
+
+interface GraphEdge {
+  connectionId: string
+  from: string
+  to: string
+  // Added to pair up odd shapes; walking it is a jump
+  virtual: boolean
+}
+
+function getDegrees(connections: Connection[]): Map<string, number> {
+  const degrees = new Map<string, number>()
+  for (const connection of connections) {
+    degrees.set(connection.fromShapeId, (degrees.get(connection.fromShapeId) ?? 0) + 1)
+    degrees.set(connection.toShapeId, (degrees.get(connection.toShapeId) ?? 0) + 1)
+  }
+  return degrees
+}
+
+/**
+ * Groups connections whose shapes are linked, in drawing order
+ * Each group is animated as its own circuit
+ */
+export function getConnectionGroups(connections: Connection[]): Connection[][] {
+  const parent = new Map<string, string>()
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) root = parent.get(root)!
+    parent.set(id, root)
+    return root
+  }
+
+  for (const connection of connections) {
+    for (const id of [connection.fromShapeId, connection.toShapeId]) {
+      if (!parent.has(id)) parent.set(id, id)
+    }
+    parent.set(find(connection.toShapeId), find(connection.fromShapeId))
+  }
+
+  const groups = new Map<string, Connection[]>()
+  for (const connection of connections) {
+    const root = find(connection.fromShapeId)
+    groups.set(root, [...(groups.get(root) ?? []), connection])
+  }
+  return [...groups.values()]
+}
+
+function getShapeIds(connections: Connection[]): string[] {
+  return [...new Set(connections.flatMap(c => [c.fromShapeId, c.toShapeId]))]
+}
+
+function getOddShapeIds(connections: Connection[]): string[] {
+  const degrees = getDegrees(connections)
+  return getShapeIds(connections).filter(id => degrees.get(id)! % 2 === 1)
+}
+
+export function analyzeCircuitGraph(connections: Connection[]): CircuitGraphAnalysis {
+  const components = getConnectionGroups(connections)
+  const oddShapeIds = getOddShapeIds(connections)
+  const oddCounts = components.map(group => getOddShapeIds(group).length)
+  // A group needs one walk per pair of odd shapes, and every walk after its first starts with a jump
+  const minimumJumps = oddCounts.reduce((total, count) => total + Math.max(0, count / 2 - 1), 0)
+
+  let walk: CircuitWalk = 'broken'
+  if (oddCounts.every(count => count === 0)) walk = 'circuit'
+  else if (oddCounts.every(count => count <= 2)) walk = 'path'
+
+  return {
+    walk,
+    components: components.map(getShapeIds),
+    oddShapeIds,
+    minimumJumps,
+  }
+}
+
+/**
+ * Hierholzer's algorithm: walks every edge exactly once starting from a shape
+ * Edges are tried in the order given, so drawing order breaks ties
+ * The start must have odd degree unless every degree is even
+ */
+function findEulerianWalk(edges: GraphEdge[], start: string): Array<{ edge: GraphEdge; reversed: boolean }> {
+  const adjacency = new Map<string, number[]>()
+  edges.forEach((edge, index) => {
+    adjacency.set(edge.from, [...(adjacency.get(edge.from) ?? []), index])
+    if (edge.to !== edge.from) adjacency.set(edge.to, [...(adjacency.get(edge.to) ?? []), index])
+  })
+
+  const used = new Set<number>()
+  const stack: Array<{ shapeId: string; edge: GraphEdge | null; reversed: boolean }> = [
+    { shapeId: start, edge: null, reversed: false },
+  ]
+  const walk: Array<{ edge: GraphEdge; reversed: boolean }> = []
+
+  while (stack.length > 0) {
+    const top = stack[stack.length - 1]!
+    const next = adjacency.get(top.shapeId)?.find(index => !used.has(index))
+    if (next !== undefined) {
+      used.add(next)
+      const edge = edges[next]!
+      const reversed = edge.from !== top.shapeId
+      stack.push({ shapeId: reversed ? edge.from : edge.to, edge, reversed })
+    } else {
+      // Dead end: this edge is final in whatever remains, so it is collected back to front
+      const done = stack.pop()!
+      if (done.edge) walk.push({ edge: done.edge, reversed: done.reversed })
+    }
+  }
+
+  return walk.reverse()
+}
+
+/**
+ * Route through the connections with as few jumps as possible
+ * Each connected group is walked in one go when it has an Eulerian circuit or
+ * path; otherwise its odd shapes are paired up and the walk jumps between pairs
+ */
+export function planEulerianOrder(connections: Connection[]): CircuitStep[] {
+  return getConnectionGroups(connections).flatMap((group) => {
+    const oddShapeIds = getOddShapeIds(group)
+    const edges: GraphEdge[] = group.map(c => ({
+      connectionId: c.id,
+      from: c.fromShapeId,
+      to: c.toShapeId,
+      virtual: false,
+    }))
+
+    // Keep the first and last odd shapes as the ends of the walk and link the
+    // rest in pairs, which leaves exactly two odd shapes
+    for (let i = 1; i + 2 < oddShapeIds.length; i += 2) {
+      edges.push({ connectionId: '', from: oddShapeIds[i]!, to: oddShapeIds[i + 1]!, virtual: true })
+    }
+
+    const start = oddShapeIds[0] ?? group[0]!.fromShapeId
+    return findEulerianWalk(edges, start)
+      .filter(({ edge }) => !edge.virtual)
+      .map(({ edge, reversed }) => ({ connectionId: edge.connectionId, reversed }))
+  })
+}
+
+/**
+ * Number of times a route leaves one connection and starts the next one at a
+ * different shape, within each group of connected shapes
+ */
+export function countCircuitJumps(order: CircuitStep[], connections: Connection[]): number {
+  return getConnectionGroups(connections).reduce((total, group) => {
+    let jumps = 0
+    let currentShapeId: string | null = null
+    for (const step of order) {
+      const connection = group.find(c => c.id === step.connectionId)
+      if (!connection) continue
+      const entryShapeId = step.reversed ? connection.toShapeId : connection.fromShapeId
+      if (currentShapeId !== null && entryShapeId !== currentShapeId) jumps++
+      currentShapeId = step.reversed ? connection.fromShapeId : connection.toShapeId
+    }
+    return total + jumps
+  }, 0)
+}
@@ -0,0 +1,51 @@
+import type { CircuitStep, Connection } from '~/types/canvas'
+import { planEulerianOrder } from './useCircuitGraph'
+
+/**
+ * Route used when the design has no explicit order: an Eulerian walk through
+ * each group of connected shapes, so the dot only jumps where it has to
+ */
+export function getAutomaticCircuitOrder(connections: Connection[]): CircuitStep[] {
+  return planEulerianOrder(connections)
+}
+
+/**
+ * The route the animation actually takes: the stored order without steps for
+ * deleted connections, followed by any connections added since it was edited
+ * An empty stored order means the automatic route
+ */
+export function resolveCircuitOrder(order: CircuitStep[] | undefined, connections: Connection[]): CircuitStep[] {
+  if (!order || order.length === 0) return getAutomaticCircuitOrder(connections)
+
+  const ids = new Set(connections.map(c => c.id))
+  const seen = new Set<string>()
+  const resolved: CircuitStep[] = []
+  for (const step of order) {
+    if (!ids.has(step.connectionId) || seen.has(step.connectionId)) continue
+    seen.add(step.connectionId)
+    resolved.push(step)
+  }
+  for (const connection of connections) {
+    if (!seen.has(connection.id)) {
+      resolved.push({ connectionId: connection.id, reversed: false })
+    }
+  }
+  return resolved
+}
+
+/**
+ * Copy of the order with one step moved to a new index
+ */
+export function moveCircuitStep(order: CircuitStep[], from: number, to: number): CircuitStep[] {
+  const next = [...order]
+  const [step] = next.splice(from, 1)
+  if (step) next.splice(Math.max(0, Math.min(next.length, to)), 0, step)
+  return next
+}
+
+/**
+ * The same route walked backward: last step first, each connection flipped
+ */
+export function reverseCircuitOrder(order: CircuitStep[]): CircuitStep[] {
+  return [...order].reverse().map(step => ({ ...step, reversed: !step.reversed }))
+}
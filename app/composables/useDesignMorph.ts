@@ -0,0 +1,131 @@
+import type { BaseShape, CanvasDocument, Connection } from '~/types/canvas'
+import { interpolateAngle, interpolateConnection, interpolateNumber, interpolateShape } from './useInterpolation'
+
+// Connections may carry an opacity when a morph is interrupted by another one
+type Design = Pick<CanvasDocument, 'shapes' | 'rotation'> & { connections: Array<Connection & { opacity?: number }> }
+type Frame = { x: number; y: number; width: number; height: number; center: { x: number; y: number } }
+
+export type MorphConnection = Connection & { opacity: number }
+
+export interface MorphScene {
+  // Shapes of both designs: matched ones tweened, the rest fading out or in
+  shapes: BaseShape[]
+  // Connections of the design being morphed to, fading in where they're new
+  connections: MorphConnection[]
+  // Connections only the design being morphed from has, fading out
+  leavingConnections: MorphConnection[]
+  rotation: number
+}
+
+// Shapes and lines that only the first design has are renamed so they can't
+// clash with anything in the second one
+const LEAVING_PREFIX = 'leaving:'
+
+/**
+ * Pairs up the shapes of two designs (first design's id → second design's id)
+ * Shapes with the same id pair up first, then the rest in the order they were
+ * drawn; a shape only pairs with one of the same type
+ */
+export function matchShapes(from: BaseShape[], to: BaseShape[]): Map<string, string> {
+  const matches = new Map<string, string>()
+  const taken = new Set<string>()
+  for (const shape of from) {
+    const same = to.find(s => s.id === shape.id && s.type === shape.type)
+    if (!same) continue
+    matches.set(shape.id, same.id)
+    taken.add(same.id)
+  }
+  for (const shape of from) {
+    if (matches.has(shape.id)) continue
+    const next = to.find(s => !taken.has(s.id) && s.type === shape.type)
+    if (!next) continue
+    matches.set(shape.id, next.id)
+    taken.add(next.id)
+  }
+  return matches
+}
+
+/**
+ * Pairs up the connections of two designs, given how their shapes pair up:
+ * by id, then by joining the same pair of shapes
+ */
+export function matchConnections(from: Connection[], to: Connection[], shapeMatches: Map<string, string>): Map<string, string> {
+  const matches = new Map<string, string>()
+  const taken = new Set<string>()
+  const pair = (connection: Connection, id: string) => {
+    matches.set(connection.id, id)
+    taken.add(id)
+  }
+  for (const connection of from) {
+    if (to.some(c => c.id === connection.id)) pair(connection, connection.id)
+  }
+  for (const connection of from) {
+    if (matches.has(connection.id)) continue
+    const next = to.find(c => !taken.has(c.id)
+      && c.fromShapeId === shapeMatches.get(connection.fromShapeId)
+      && c.toShapeId === shapeMatches.get(connection.toShapeId))
+    if (next) pair(connection, next.id)
+  }
+  return matches
+}
+
+/**
+ * One design part way through morphing into another (t 0 = from, 1 = to)
+ * Matched shapes tween their position, size, fill and opacity and matched
+ * lines their color, curve and anchors; everything else cross-fades. Lines
+ * stay attached to the tweened shapes, so getConnectionGeometry places their
+ * ends on the shapes as they are at that moment
+ */
+export function morphDesigns(from: Design, to: Design, t: number): MorphScene {
+  const shapeMatches = matchShapes(from.shapes, to.shapes)
+  const connectionMatches = matchConnections(from.connections, to.connections, shapeMatches)
+  const shapeId = (id: string) => shapeMatches.get(id) ?? `${LEAVING_PREFIX}${id}`
+
+  const leavingShapes = from.shapes
+    .filter(shape => !shapeMatches.has(shape.id))
+    .map(shape => ({ ...shape, id: shapeId(shape.id), opacity: (shape.opacity ?? 1) * (1 - t) }))
+  const shapes = to.shapes.map((shape) => {
+    const previous = from.shapes.find(s => shapeMatches.get(s.id) === shape.id)
+    return previous ? interpolateShape(previous, shape, t) : { ...shape, opacity: (shape.opacity ?? 1) * t }
+  })
+
+  const connections = to.connections.map((connection) => {
+    const previous = from.connections.find(c => connectionMatches.get(c.id) === connection.id)
+    return previous
+      ? { ...interpolateConnection(previous, connection, t), opacity: interpolateNumber(previous.opacity ?? 1, 1, t) }
+      : { ...connection, opacity: t }
+  })
+  const leavingConnections = from.connections
+    .filter(connection => !connectionMatches.has(connection.id))
+    .map(connection => ({
+      ...connection,
+      id: `${LEAVING_PREFIX}${connection.id}`,
+      fromShapeId: shapeId(connection.fromShapeId),
+      toShapeId: shapeId(connection.toShapeId),
+      opacity: (connection.opacity ?? 1) * (1 - t),
+    }))
+
+  return {
+    shapes: [...leavingShapes, ...shapes],
+    connections,
+    leavingConnections,
+    rotation: interpolateAngle(from.rotation, to.rotation, t),
+  }
+}
+
+/**
+ * Export frame part way between two designs' frames, so the player's zoom
+ * follows the morph instead of jumping
+ */
+export function interpolateFrame(from: Frame, to: Frame, t: number): Frame {
+  return {
+    x: interpolateNumber(from.x, to.x, t),
+    y: interpolateNumber(from.y, to.y, t),
+    width: interpolateNumber(from.width, to.width, t),
+    height: interpolateNumber(from.height, to.height, t),
+    center: {
+      x: interpolateNumber(from.center.x, to.center.x, t),
+      y: interpolateNumber(from.center.y, to.center.y, t),
+    },
+  }
+}
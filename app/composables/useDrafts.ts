@@ -0,0 +1,284 @@
+import { onUnmounted, ref, watch } from 'vue'
+import type { CanvasDocument } from '~/types/canvas'
+import { deserializeDocument, stringifyDocument } from './useCanvasDocument'
+import type { useCanvasDocument } from './useCanvasDocument'
+import type { useCanvasState } from './useCanvasState'
+
+export interface DraftSummary {
+  id: string
+  name: string
+  updatedAt: number  // Epoch ms of the last save
+}
+
+export type DraftStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+const INDEX_KEY = 'loader-drafts'
+const LAST_SESSION_KEY = 'loader-drafts:last'
+const DRAFT_KEY_PREFIX = 'loader-draft:'
+const AUTOSAVE_DELAY_MS = 1000
+
+function draftKey(id: string): string {
+  return `${DRAFT_KEY_PREFIX}${id}`
+}
+
+function createDraftId(): string {
+  return `draft-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Drafts persisted in a Storage (localStorage in the app)
+ * The index holds names and timestamps so listing never parses whole documents
+ */
+export function createDraftStore(storage: DraftStorage) {
+  function list(): DraftSummary[] {
+    try {
+      const parsed = JSON.parse(storage.getItem(INDEX_KEY) ?? '[]')
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+
+  function writeIndex(drafts: DraftSummary[]) {
+    storage.setItem(INDEX_KEY, JSON.stringify([...drafts].sort((a, b) => b.updatedAt - a.updatedAt)))
+  }
+
+  function load(id: string): CanvasDocument {
+    const json = storage.getItem(draftKey(id))
+    if (json === null) {
+      throw new Error('Draft no longer exists')
+    }
+    return deserializeDocument(json)
+  }
+
+  function save(id: string, json: string, name?: string): DraftSummary {
+    const drafts = list()
+    const existing = drafts.find(d => d.id === id)
+    const summary: DraftSummary = {
+      id,
+      name: name ?? existing?.name ?? `Untitled loader ${drafts.length + 1}`,
+      updatedAt: Date.now(),
+    }
+    // Write the document first so the index never points at a missing draft
+    storage.setItem(draftKey(id), json)
+    writeIndex([...drafts.filter(d => d.id !== id), summary])
+    return summary
+  }
+
+  function create(json: string, name?: string): DraftSummary {
+    return save(createDraftId(), json, name)
+  }
+
+  function rename(id: string, name: string) {
+    writeIndex(list().map(d => (d.id === id ? { ...d, name } : d)))
+  }
+
+  function duplicate(id: string): DraftSummary | null {
+    const source = list().find(d => d.id === id)
+    const json = storage.getItem(draftKey(id))
+    if (!source || json === null) return null
+    return create(json, `${source.name} copy`)
+  }
+
+  function remove(id: string) {
+    storage.removeItem(draftKey(id))
+    writeIndex(list().filter(d => d.id !== id))
+    if (getLastSessionId() === id) {
+      storage.removeItem(LAST_SESSION_KEY)
+    }
+  }
+
+  function getLastSessionId(): string | null {
+    return storage.getItem(LAST_SESSION_KEY)
+  }
+
+  function setLastSessionId(id: string) {
+    storage.setItem(LAST_SESSION_KEY, id)
+  }
+
+  return {
+    list,
+    load,
+    save,
+    create,
+    rename,
+    duplicate,
+    remove,
+    getLastSessionId,
+    setLastSessionId,
+  }
+}
+
+/**
+ * Storage that lasts as long as the page, for when localStorage can't be used
+ */
+export function createMemoryStorage(): DraftStorage {
+  const items = new Map<string, string>()
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+  }
+}
+
+// Merely reading window.localStorage throws when storage is disabled
+// (sandboxed iframes, some privacy modes); drafts then last until the tab closes
+function getLocalStorage(): DraftStorage {
+  try {
+    return window.localStorage ?? createMemoryStorage()
+  } catch {
+    return createMemoryStorage()
+  }
+}
+
+export interface DraftsOptions {
+  storage?: DraftStorage
+  onError?: (error: unknown) => void  // Storage full, private mode, etc.
+}
+
+/**
+ * Debounced autosave of the canvas into drafts, plus the drafts list actions
+ *
+ * Nothing is written until the design changes, so opening the editor never
+ * overwrites the previous session before the user had a chance to restore it.
+ */
+export function useDrafts(
+  canvasState: ReturnType<typeof useCanvasState>,
+  canvasDocument: ReturnType<typeof useCanvasDocument>,
+  options: DraftsOptions = {}
+) {
+  const store = createDraftStore(options.storage ?? getLocalStorage())
+  const drafts = ref<DraftSummary[]>(store.list())
+  const currentDraftId = ref<string | null>(null)
+
+  let saveTimer: ReturnType<typeof setTimeout> | null = null
+  // Set below to the startup state so an untouched canvas is never saved
+  let lastSavedJson: string | null = null
+
+  function attempt<T>(action: () => T): T | undefined {
+    try {
+      return action()
+    } catch (error) {
+      options.onError?.(error)
+      return undefined
+    }
+  }
+
+  function refresh() {
+    drafts.value = store.list()
+  }
+
+  function currentJson(): string {
+    // Playback state is not part of the design
+    const doc = canvasDocument.getDocument()
+    return stringifyDocument({ ...doc, animation: { ...doc.animation, enabled: false } })
+  }
+
+  function saveNow() {
+    if (saveTimer !== null) {
+      clearTimeout(saveTimer)
+      saveTimer = null
+    }
+
+    const json = currentJson()
+    if (json === lastSavedJson) return
+
+    attempt(() => {
+      const summary = currentDraftId.value
+        ? store.save(currentDraftId.value, json)
+        : store.create(json)
+      currentDraftId.value = summary.id
+      store.setLastSessionId(summary.id)
+      lastSavedJson = json
+      refresh()
+    })
+  }
+
+  function scheduleSave() {
+    if (saveTimer !== null) clearTimeout(saveTimer)
+    saveTimer = setTimeout(saveNow, AUTOSAVE_DELAY_MS)
+  }
+
+  // Save right away if an autosave is pending
+  function flush() {
+    if (saveTimer !== null) saveNow()
+  }
+
+  lastSavedJson = currentJson()
+
+  // Rotation is left out on purpose: it changes every frame while playing and
+  // is picked up by the next save anyway
+  watch(
+    [canvasState.shapes, canvasState.connections, canvasState.animationConfig, canvasState.circuitOrder, canvasState.selectedColor],
+    scheduleSave,
+    { deep: true }
+  )
+
+  /**
+   * Draft from the previous visit, if it still exists
+   */
+  function getLastSession(): DraftSummary | null {
+    const id = store.getLastSessionId()
+    return drafts.value.find(d => d.id === id) ?? null
+  }
+
+  function openDraft(id: string) {
+    flush()
+    const doc = attempt(() => store.load(id))
+    if (!doc) return
+
+    canvasDocument.loadDocument(doc)
+    currentDraftId.value = id
+    store.setLastSessionId(id)
+    // Loading changes the canvas; don't count that as an edit
+    if (saveTimer !== null) {
+      clearTimeout(saveTimer)
+      saveTimer = null
+    }
+    lastSavedJson = currentJson()
+  }
+
+  function renameDraft(id: string, name: string) {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    attempt(() => store.rename(id, trimmed))
+    refresh()
+  }
+
+  function duplicateDraft(id: string) {
+    if (id === currentDraftId.value) flush()
+    attempt(() => store.duplicate(id))
+    refresh()
+  }
+
+  function deleteDraft(id: string) {
+    attempt(() => store.remove(id))
+    if (id === currentDraftId.value) {
+      // Keep editing; the next change starts a new draft
+      currentDraftId.value = null
+    }
+    refresh()
+  }
+
+  // Don't lose the last second of work when the tab closes
+  window.addEventListener('pagehide', flush)
+  onUnmounted(() => {
+    window.removeEventListener('pagehide', flush)
+    flush()
+  })
+
+  return {
+    drafts,
+    currentDraftId,
+    getLastSession,
+    openDraft,
+    renameDraft,
+    duplicateDraft,
+    deleteDraft,
+    flush,
+  }
+}
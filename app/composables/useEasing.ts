@@ -0,0 +1,120 @@
+import type { EasingConfig, EasingType } from '~/types/canvas'
+
+export type EasingFunction = (t: number) => number
+
+export const EASING_TYPES: Array<{ type: EasingType; label: string }> = [
+  { type: 'linear', label: 'Linear' },
+  { type: 'ease-in-out', label: 'Ease' },
+  { type: 'cubic-bezier', label: 'Bezier' },
+  { type: 'steps', label: 'Steps' },
+  { type: 'spring', label: 'Spring' },
+]
+
+// Same curve as CSS ease-in-out
+const EASE_IN_OUT: EasingConfig['controlPoints'] = [0.42, 0, 0.58, 1]
+
+export function createDefaultEasing(): EasingConfig {
+  return {
+    type: 'linear',
+    controlPoints: [...EASE_IN_OUT],
+    steps: 4,
+    bounce: 0.5,
+  }
+}
+
+/**
+ * CSS-style cubic-bezier timing function from (0,0) to (1,1)
+ * x is solved for t with Newton's method, falling back to bisection where the
+ * slope is too flat for Newton to converge
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  // Polynomial coefficients of B(s) = a*s^3 + b*s^2 + c*s for each axis
+  const cx = 3 * x1
+  const bx = 3 * (x2 - x1) - cx
+  const ax = 1 - cx - bx
+  const cy = 3 * y1
+  const by = 3 * (y2 - y1) - cy
+  const ay = 1 - cy - by
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s
+  const slopeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx
+
+  function solveX(x: number): number {
+    let s = x
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(s) - x
+      if (Math.abs(error) < 1e-6) return s
+      const slope = slopeX(s)
+      if (Math.abs(slope) < 1e-6) break
+      s -= error / slope
+    }
+
+    let low = 0
+    let high = 1
+    s = x
+    for (let i = 0; i < 30; i++) {
+      const value = sampleX(s)
+      if (Math.abs(value - x) < 1e-6) break
+      if (value < x) low = s
+      else high = s
+      s = (low + high) / 2
+    }
+    return s
+  }
+
+  return (t: number) => {
+    if (t <= 0) return 0
+    if (t >= 1) return 1
+    return sampleY(solveX(t))
+  }
+}
+
+/**
+ * Damped spring that settles on 1 at t = 1
+ * bounce 0 approaches without overshooting, bounce 1 overshoots by about a quarter
+ */
+export function springEasing(bounce: number): EasingFunction {
+  const amount = Math.max(0, Math.min(1, bounce))
+  const decay = 4 + 10 * (1 - amount)
+  const frequency = amount > 0 ? 3 * Math.PI : 0
+
+  const raw = (t: number) => {
+    const envelope = Math.exp(-decay * t)
+    return frequency === 0
+      ? 1 - envelope * (1 + decay * t)
+      : 1 - envelope * (Math.cos(frequency * t) + (decay / frequency) * Math.sin(frequency * t))
+  }
+  // The spring has almost settled by t = 1; scale so it lands exactly
+  const end = raw(1)
+
+  return (t: number) => {
+    if (t <= 0) return 0
+    if (t >= 1) return 1
+    return raw(t) / end
+  }
+}
+
+export function stepsEasing(steps: number): EasingFunction {
+  const count = Math.max(1, Math.round(steps))
+  return (t: number) => (t >= 1 ? 1 : Math.floor(Math.max(0, t) * count) / count)
+}
+
+/**
+ * Timing function for an easing setting: maps loop time (0-1) to loop progress
+ * Progress can leave 0-1 briefly (bezier handles above 1, spring overshoot)
+ */
+export function createEasingFunction(easing: EasingConfig | undefined): EasingFunction {
+  switch (easing?.type) {
+    case 'ease-in-out':
+      return cubicBezier(...EASE_IN_OUT)
+    case 'cubic-bezier':
+      return cubicBezier(...easing.controlPoints)
+    case 'steps':
+      return stepsEasing(easing.steps)
+    case 'spring':
+      return springEasing(easing.bounce)
+    default:
+      return t => t
+  }
+}
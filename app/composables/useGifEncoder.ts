@@ -0,0 +1,297 @@
+export interface GifFrame {
+  data: Uint8ClampedArray  // RGBA pixels, width * height * 4
+  delay: number  // Time the frame stays on screen in ms
+}
+
+export interface GifEncodeOptions {
+  width: number
+  height: number
+  transparent?: boolean  // Pixels with alpha < 128 become fully transparent
+  loop?: boolean  // Repeat forever (default true)
+}
+
+// Pixels are bucketed at 5 bits per channel before quantization
+const BIN_BITS = 5
+const BIN_COUNT = 1 << (BIN_BITS * 3)
+const ALPHA_THRESHOLD = 128
+const MAX_LZW_CODE = 4096
+
+function binIndex(r: number, g: number, b: number): number {
+  const shift = 8 - BIN_BITS
+  return ((r >> shift) << (BIN_BITS * 2)) | ((g >> shift) << BIN_BITS) | (b >> shift)
+}
+
+interface ColorBox {
+  bins: number[]
+  count: number
+}
+
+/**
+ * Median-cut palette over every frame at once, so all frames share one
+ * global color table and colors do not flicker between frames
+ * Returns packed RGB triples (at most maxColors entries)
+ */
+export function buildPalette(frames: Uint8ClampedArray[], maxColors: number): Uint8Array {
+  const counts = new Float64Array(BIN_COUNT)
+  const sums = new Float64Array(BIN_COUNT * 3)
+
+  for (const data of frames) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3]! < ALPHA_THRESHOLD) continue
+      const bin = binIndex(data[i]!, data[i + 1]!, data[i + 2]!)
+      counts[bin]! += 1
+      sums[bin * 3]! += data[i]!
+      sums[bin * 3 + 1]! += data[i + 1]!
+      sums[bin * 3 + 2]! += data[i + 2]!
+    }
+  }
+
+  const used: number[] = []
+  for (let bin = 0; bin < BIN_COUNT; bin++) {
+    if (counts[bin]! > 0) used.push(bin)
+  }
+  if (used.length === 0) return new Uint8Array([0, 0, 0])
+
+  const channel = (bin: number, c: number) => (bin >> (BIN_BITS * (2 - c))) & ((1 << BIN_BITS) - 1)
+  const boxes: ColorBox[] = [{ bins: used, count: used.reduce((total, bin) => total + counts[bin]!, 0) }]
+
+  while (boxes.length < maxColors) {
+    // Split the most populated box that still spans more than one bin
+    let target = -1
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i]!.bins.length > 1 && (target === -1 || boxes[i]!.count > boxes[target]!.count)) {
+        target = i
+      }
+    }
+    if (target === -1) break
+
+    const box = boxes[target]!
+    let widest = 0
+    let widestRange = -1
+    for (let c = 0; c < 3; c++) {
+      let min = Infinity
+      let max = -Infinity
+      for (const bin of box.bins) {
+        const value = channel(bin, c)
+        min = Math.min(min, value)
+        max = Math.max(max, value)
+      }
+      if (max - min > widestRange) {
+        widestRange = max - min
+        widest = c
+      }
+    }
+
+    box.bins.sort((a, b) => channel(a, widest) - channel(b, widest))
+    let half = 0
+    let split = 0
+    while (split < box.bins.length - 1 && half + counts[box.bins[split]!]! <= box.count / 2) {
+      half += counts[box.bins[split]!]!
+      split++
+    }
+    split = Math.max(1, split)
+
+    const low = box.bins.slice(0, split)
+    const high = box.bins.slice(split)
+    const lowCount = low.reduce((total, bin) => total + counts[bin]!, 0)
+    boxes.splice(target, 1, { bins: low, count: lowCount }, { bins: high, count: box.count - lowCount })
+  }
+
+  const palette = new Uint8Array(boxes.length * 3)
+  boxes.forEach((box, i) => {
+    for (let c = 0; c < 3; c++) {
+      let sum = 0
+      for (const bin of box.bins) sum += sums[bin * 3 + c]!
+      palette[i * 3 + c] = Math.round(sum / box.count)
+    }
+  })
+  return palette
+}
+
+/**
+ * Map RGBA pixels onto palette indices (nearest color, cached per bin)
+ */
+export function indexPixels(
+  data: Uint8ClampedArray,
+  palette: Uint8Array,
+  cache: Int16Array,
+  transparentIndex: number | null
+): Uint8Array {
+  const indices = new Uint8Array(data.length / 4)
+  const colors = palette.length / 3
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    if (transparentIndex !== null && data[i + 3]! < ALPHA_THRESHOLD) {
+      indices[p] = transparentIndex
+      continue
+    }
+    const bin = binIndex(data[i]!, data[i + 1]!, data[i + 2]!)
+    let index = cache[bin]!
+    if (index === -1) {
+      let best = Infinity
+      for (let c = 0; c < colors; c++) {
+        const dr = palette[c * 3]! - data[i]!
+        const dg = palette[c * 3 + 1]! - data[i + 1]!
+        const db = palette[c * 3 + 2]! - data[i + 2]!
+        const distance = dr * dr + dg * dg + db * db
+        if (distance < best) {
+          best = distance
+          index = c
+        }
+      }
+      cache[bin] = index
+    }
+    indices[p] = index
+  }
+  return indices
+}
+
+/**
+ * Variable-width LZW as used by GIF image data (before sub-block packing)
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  const output: number[] = []
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let dictionary = new Map<number, number>()
+  let buffer = 0
+  let bufferBits = 0
+
+  function write(code: number) {
+    buffer |= code << bufferBits
+    bufferBits += codeSize
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff)
+      buffer >>= 8
+      bufferBits -= 8
+    }
+  }
+
+  write(clearCode)
+  if (indices.length === 0) {
+    write(endCode)
+    if (bufferBits > 0) output.push(buffer & 0xff)
+    return new Uint8Array(output)
+  }
+
+  let prefix = indices[0]!
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i]!
+    const key = (prefix << 8) | value
+    const existing = dictionary.get(key)
+    if (existing !== undefined) {
+      prefix = existing
+      continue
+    }
+
+    write(prefix)
+    if (nextCode === MAX_LZW_CODE) {
+      // Table full: start over so the decoder resets in step
+      write(clearCode)
+      dictionary = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    } else {
+      // The decoder lags one code behind, so widen before adding the entry that overflows
+      if (nextCode >= 1 << codeSize) codeSize++
+      dictionary.set(key, nextCode++)
+    }
+    prefix = value
+  }
+
+  write(prefix)
+  write(endCode)
+  if (bufferBits > 0) output.push(buffer & 0xff)
+  return new Uint8Array(output)
+}
+
+/**
+ * Encode RGBA frames as a looping GIF89a with a shared, quantized palette
+ */
+export function encodeGif(frames: GifFrame[], options: GifEncodeOptions): Uint8Array<ArrayBuffer> {
+  const { width, height } = options
+  const transparent = options.transparent ?? false
+  const bytes: number[] = []
+  const writeByte = (value: number) => bytes.push(value & 0xff)
+  const writeShort = (value: number) => {
+    writeByte(value)
+    writeByte(value >> 8)
+  }
+  const writeString = (value: string) => {
+    for (let i = 0; i < value.length; i++) writeByte(value.charCodeAt(i))
+  }
+
+  // Reserve the last palette slot for transparency
+  const palette = buildPalette(frames.map(f => f.data), transparent ? 255 : 256)
+  const colorCount = palette.length / 3
+  const transparentIndex = transparent ? colorCount : null
+  const usedColors = colorCount + (transparent ? 1 : 0)
+  let tableBits = 1
+  while (1 << tableBits < usedColors) tableBits++
+
+  writeString('GIF89a')
+  writeShort(width)
+  writeShort(height)
+  writeByte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1))  // Global color table of 2^tableBits entries
+  writeByte(0)  // Background color index
+  writeByte(0)  // Pixel aspect ratio
+  for (let i = 0; i < 1 << tableBits; i++) {
+    writeByte(palette[i * 3] ?? 0)
+    writeByte(palette[i * 3 + 1] ?? 0)
+    writeByte(palette[i * 3 + 2] ?? 0)
+  }
+
+  if (options.loop ?? true) {
+    writeByte(0x21)
+    writeByte(0xff)
+    writeByte(11)
+    writeString('NETSCAPE2.0')
+    writeByte(3)
+    writeByte(1)
+    writeShort(0)  // Loop forever
+    writeByte(0)
+  }
+
+  const cache = new Int16Array(BIN_COUNT).fill(-1)
+  const minCodeSize = Math.max(2, tableBits)
+  let elapsed = 0
+
+  for (const frame of frames) {
+    // GIF delays are in centiseconds; round the running total so rounding errors don't accumulate
+    const start = Math.round(elapsed / 10)
+    elapsed += frame.delay
+    const delay = Math.max(1, Math.round(elapsed / 10) - start)
+
+    // Graphic control extension
+    writeByte(0x21)
+    writeByte(0xf9)
+    writeByte(4)
+    // Transparent frames must clear the previous frame (disposal 2), opaque ones can stay (1)
+    writeByte(transparent ? (2 << 2) | 1 : 1 << 2)
+    writeShort(delay)
+    writeByte(transparentIndex ?? 0)
+    writeByte(0)
+
+    // Image descriptor (full frame, no local color table)
+    writeByte(0x2c)
+    writeShort(0)
+    writeShort(0)
+    writeShort(width)
+    writeShort(height)
+    writeByte(0)
+
+    const data = lzwEncode(indexPixels(frame.data, palette, cache, transparentIndex), minCodeSize)
+    writeByte(minCodeSize)
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const chunk = data.subarray(offset, offset + 255)
+      writeByte(chunk.length)
+      for (const value of chunk) bytes.push(value)
+    }
+    writeByte(0)
+  }
+
+  writeByte(0x3b)  // Trailer
+  return new Uint8Array(bytes)
+}
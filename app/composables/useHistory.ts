@@ -0,0 +1,125 @@
+import { computed, shallowRef } from 'vue'
+
+// Repeated changes with the same coalesce key inside this window become one entry
+const COALESCE_WINDOW_MS = 500
+
+interface HistoryEntry {
+  label: string
+  snapshot: string  // JSON of the state *before* the change
+  coalesceKey: string | null
+  time: number
+}
+
+export interface HistoryOptions<T> {
+  // Return the state to track; it is serialized immediately, so live objects are fine
+  capture: () => T
+  restore: (snapshot: T) => void
+  limit?: number
+}
+
+/**
+ * Snapshot-based undo/redo stack
+ *
+ * Call record() right before a mutation. Continuous interactions (drags) wrap
+ * their mutations in beginGesture()/endGesture() so they produce one entry.
+ */
+export function useHistory<T>(options: HistoryOptions<T>) {
+  const limit = options.limit ?? 100
+  const undoStack = shallowRef<HistoryEntry[]>([])
+  const redoStack = shallowRef<HistoryEntry[]>([])
+
+  // Snapshot taken when the current gesture started (null = no gesture active)
+  let gesture: { label: string; snapshot: string } | null = null
+  let isRestoring = false
+
+  const canUndo = computed(() => undoStack.value.length > 0)
+  const canRedo = computed(() => redoStack.value.length > 0)
+
+  function serialize(): string {
+    return JSON.stringify(options.capture())
+  }
+
+  function push(entry: HistoryEntry) {
+    const next = [...undoStack.value, entry]
+    undoStack.value = next.length > limit ? next.slice(next.length - limit) : next
+    redoStack.value = []
+  }
+
+  function record(label: string, coalesceKey: string | null = null) {
+    // Mutations during undo/redo or inside a gesture are covered elsewhere
+    if (isRestoring || gesture !== null) return
+
+    const now = Date.now()
+    const last = undoStack.value[undoStack.value.length - 1]
+    if (coalesceKey !== null && last && last.coalesceKey === coalesceKey && now - last.time < COALESCE_WINDOW_MS) {
+      last.time = now
+      redoStack.value = []
+      return
+    }
+
+    push({ label, snapshot: serialize(), coalesceKey, time: now })
+  }
+
+  function beginGesture(label: string) {
+    if (isRestoring || gesture !== null) return
+    gesture = { label, snapshot: serialize() }
+  }
+
+  function endGesture() {
+    if (gesture === null) return
+    const { label, snapshot } = gesture
+    gesture = null
+    // Clicks that start a drag without moving anything leave no entry
+    if (snapshot !== serialize()) {
+      push({ label, snapshot, coalesceKey: null, time: Date.now() })
+    }
+  }
+
+  function applySnapshot(snapshot: string) {
+    isRestoring = true
+    try {
+      options.restore(JSON.parse(snapshot) as T)
+    } finally {
+      isRestoring = false
+    }
+  }
+
+  function undo() {
+    endGesture()
+    const entry = undoStack.value[undoStack.value.length - 1]
+    if (!entry) return
+
+    undoStack.value = undoStack.value.slice(0, -1)
+    redoStack.value = [...redoStack.value, { ...entry, snapshot: serialize(), coalesceKey: null }]
+    applySnapshot(entry.snapshot)
+  }
+
+  function redo() {
+    endGesture()
+    const entry = redoStack.value[redoStack.value.length - 1]
+    if (!entry) return
+
+    redoStack.value = redoStack.value.slice(0, -1)
+    undoStack.value = [...undoStack.value, { ...entry, snapshot: serialize(), coalesceKey: null }]
+    applySnapshot(entry.snapshot)
+  }
+
+  function clear() {
+    gesture = null
+    undoStack.value = []
+    redoStack.value = []
+  }
+
+  return {
+    canUndo,
+    canRedo,
+    undoLabel: computed(() => undoStack.value[undoStack.value.length - 1]?.label ?? null),
+    redoLabel: computed(() => redoStack.value[redoStack.value.length - 1]?.label ?? null),
+    record,
+    beginGesture,
+    endGesture,
+    undo,
+    redo,
+    clear,
+  }
+}
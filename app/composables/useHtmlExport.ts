@@ -0,0 +1,293 @@
+import type { BaseShape, CanvasDocument, ColorValue } from '~/types/canvas'
+import { getCSSGradient, getShapeStrokeColor } from './useKonvaGradients'
+import { getDotTrail, getRotationKeyframes, getSnakeBands, getSpinSpeed } from './usePathAnimation'
+import {
+  createSvgDefs,
+  colorToBoundingBoxPaint,
+  escapeXml,
+  formatNumber,
+  getDotTrailDelay,
+  getExportFrame,
+  getLoopPathData,
+  getLoopsDuration,
+  getSampledConnections,
+  getSampledShapeStates,
+  getShapeStateTransform,
+  renderConnectionSvg,
+  samplePathLoops,
+  sampleScene,
+} from './useSvgExport'
+import type { SampledLoop, ShapeState } from './useSvgExport'
+import { SHAPE_GLOW_BLUR, getShapeLocalCenter } from './useShapeEffects'
+
+export interface HtmlExportOptions {
+  className?: string  // Prefix for generated classes and keyframes
+  padding?: number
+  background?: string | null
+  samples?: number  // Keyframes per loop
+}
+
+export interface HtmlExport {
+  html: string
+  css: string
+}
+
+/**
+ * CSS background for a fill. Konva measures gradient angles from the x axis
+ * while CSS measures from "to top", so linear angles are shifted by 90deg.
+ */
+function toCSSBackground(color: ColorValue): string {
+  if (typeof color === 'string') return color
+  if (color.type === 'linear') {
+    return getCSSGradient({ ...color, angle: (color.angle ?? 0) + 90 })
+  }
+  return getCSSGradient(color)
+}
+
+function percent(index: number, count: number): string {
+  return `${formatNumber((index / count) * 100)}%`
+}
+
+function shapeRule(selector: string, shape: BaseShape): string {
+  const f = formatNumber
+  const stroke = getShapeStrokeColor(shape.fill, false)
+  const background = toCSSBackground(shape.fill)
+  const opacity = (shape.opacity ?? 1) < 1 ? `;opacity:${f(shape.opacity!)}` : ''
+
+  if (shape.type === 'circle') {
+    const r = shape.radius || 20
+    return `${selector}{left:${f(shape.x - r)}px;top:${f(shape.y - r)}px;width:${f(r * 2)}px;height:${f(r * 2)}px;`
+      + `border-radius:50%;background:${background};box-shadow:0 0 0 1px ${stroke},inset 0 0 0 1px ${stroke}${opacity}}`
+  }
+
+  const w = shape.width || 40
+  const h = shape.height || 40
+  if (shape.type === 'square') {
+    return `${selector}{left:${f(shape.x)}px;top:${f(shape.y)}px;width:${f(w)}px;height:${f(h)}px;`
+      + `border-radius:4px;background:${background};box-shadow:0 0 0 1px ${stroke},inset 0 0 0 1px ${stroke}${opacity}}`
+  }
+
+  // Triangles: an outline-colored triangle 1px larger behind the filled one
+  const clip = 'clip-path:polygon(50% 0,100% 100%,0 100%)'
+  return `${selector}{left:${f(shape.x - 1)}px;top:${f(shape.y - 2)}px;width:${f(w + 2)}px;height:${f(h + 3)}px;background:${stroke};${clip}${opacity}}`
+    + `${selector}::after{content:"";position:absolute;left:1px;top:2px;width:${f(w)}px;height:${f(h)}px;background:${background};${clip}}`
+}
+
+/**
+ * Keyframes that move, resize and fade a shape as keyframed and pulse and
+ * glow it along with the dot, plus a separate fill animation (triangles are
+ * filled by their ::after)
+ */
+function shapeAnimationRules(selector: string, name: string, shape: BaseShape, states: ShapeState[], duration: number, color: string): string {
+  const f = formatNumber
+  const count = states.length - 1
+  // Both animations land on the same element unless the shape is a triangle
+  const animations = new Map<string, Array<{ name: string; keyframes: string }>>()
+  const animate = (target: string, suffix: string, keyframes: string) => {
+    animations.set(target, [...(animations.get(target) ?? []), { name: `${name}${suffix}`, keyframes }])
+  }
+
+  // Shapes scale around the center of their element, so the shift makes up
+  // the difference to scaling around the shape's origin
+  const center = getShapeLocalCenter(shape)
+  const transforms = states.map((state) => {
+    const { x, y, scale } = getShapeStateTransform(shape, state)
+    return { x: x - center.x * (1 - scale), y: y - center.y * (1 - scale), scale }
+  })
+  const opacities = states.map(state => (state.shape.opacity ?? 1) * state.style.opacity)
+  const moves = transforms.some(t => t.x !== 0 || t.y !== 0 || t.scale !== 1)
+  const fades = opacities.some(o => o !== (shape.opacity ?? 1))
+  const glows = states.some(state => state.style.glow > 0)
+  if (moves || fades || glows) {
+    animate(selector, '', states.map((state, i) => {
+      const t = transforms[i]!
+      const properties = [
+        moves ? `transform:translate(${f(t.x)}px,${f(t.y)}px) scale(${f(t.scale)})` : '',
+        fades ? `opacity:${f(opacities[i]!)}` : '',
+        glows ? `filter:drop-shadow(0 0 ${f((SHAPE_GLOW_BLUR * state.style.glow) / 2)}px ${color})` : '',
+      ]
+      return `${percent(i, count)}{${properties.filter(Boolean).join(';')}}`
+    }).join(''))
+  }
+  if (states.some(state => state.style.fill !== shape.fill)) {
+    animate(
+      shape.type === 'triangle' ? `${selector}::after` : selector,
+      '-fill',
+      states.map((state, i) => `${percent(i, count)}{background:${toCSSBackground(state.style.fill)}}`).join('')
+    )
+  }
+
+  return [...animations].map(([target, list]) =>
+    `${target}{animation:${list.map(a => `${a.name} ${f(duration / 1000)}s linear infinite`).join(',')}}`
+    + list.map(a => `@keyframes ${a.name}{${a.keyframes}}`).join('')
+  ).join('')
+}
+
+// Negative delay that starts a lap the given offset behind (negative = ahead of) its start
+function lapDelay(offset: number, loop: SampledLoop): string {
+  const delay = formatNumber(getDotTrailDelay(offset - loop.phaseOffset, loop.duration) / 1000)
+  return delay === '0' ? '0s' : `-${delay}s`
+}
+
+function dotRules(prefix: string, doc: CanvasDocument, loops: SampledLoop[]): string {
+  const { dotSize, dotColor } = doc.animation
+  const f = formatNumber
+  const trail = getDotTrail(doc.animation)
+
+  const rules = [
+    `.${prefix}-dot{position:absolute;left:0;top:0;width:${f(dotSize * 2)}px;height:${f(dotSize * 2)}px;`
+    + `border-radius:50%;background:${dotColor};box-shadow:0 0 10px ${dotColor};offset-rotate:0deg;`
+    + 'animation-timing-function:linear;animation-iteration-count:infinite}',
+    // Trailing dots are smaller and fainter
+    ...trail.slice(1).map(({ scale }, i) => {
+      const size = dotSize * 2 * scale
+      return `.${prefix}-dot-${i + 2}{width:${f(size)}px;height:${f(size)}px;opacity:${f(scale)}}`
+    }),
+  ]
+
+  loops.forEach((loop, index) => {
+    const circuit = `${prefix}-circuit-${index + 1}`
+    const count = loop.points.length - 1
+    const arcTotal = loop.arcLengths[loop.arcLengths.length - 1] || 1
+    // Keyframes are evenly spaced in time; offset-distance follows the sampled
+    // arc length so the dot keeps the same pace as in the editor
+    const keyframes = loop.arcLengths
+      .map((arc, i) => `${percent(i, count)}{offset-distance:${f((arc / arcTotal) * 100)}%}`)
+      .join('')
+
+    rules.push(
+      `.${circuit}{offset-path:path('${getLoopPathData(loop)}');animation-name:${prefix}-move-${index + 1};`
+      + `animation-duration:${f(loop.duration / 1000)}s;animation-delay:${lapDelay(0, loop)}}`,
+      // Trailing dots reuse the lead dot's keyframes with a longer negative delay
+      ...trail.slice(1).map(({ offset }, i) => `.${circuit}.${prefix}-dot-${i + 2}{animation-delay:${lapDelay(offset, loop)}}`),
+      `@keyframes ${prefix}-move-${index + 1}{${keyframes}}`
+    )
+  })
+
+  return rules.join('')
+}
+
+// Class for one band of a snake; a plain snake is a single band named after its circuit
+function snakeBandClass(prefix: string, index: number, band: number, bandCount: number): string {
+  return bandCount > 1 ? `${prefix}-snake-${index + 1}-${band + 1}` : `${prefix}-snake-${index + 1}`
+}
+
+function snakeRules(prefix: string, doc: CanvasDocument, loop: SampledLoop, index: number): string {
+  const count = loop.points.length - 1
+  const arcTotal = loop.arcLengths[loop.arcLengths.length - 1] || 0
+  const snakeArc = doc.animation.snakeLength * arcTotal
+  const bands = getSnakeBands(doc.animation)
+
+  return bands.map((band, b) => {
+    const name = snakeBandClass(prefix, index, b, bands.length)
+    const bandArc = (band.end - band.start) * snakeArc
+    const keyframes = loop.arcLengths
+      .map((arc, i) => `${percent(i, count)}{stroke-dashoffset:${formatNumber(snakeArc * (1 - band.start) - arc)}px}`)
+      .join('')
+
+    return `.${name}{stroke-dasharray:${formatNumber(bandArc)}px ${formatNumber(arcTotal - bandArc)}px;`
+      + `animation:${name} ${formatNumber(loop.duration / 1000)}s linear ${lapDelay(0, loop)} infinite}`
+      + `@keyframes ${name}{${keyframes}}`
+  }).join('')
+}
+
+/**
+ * Render the design as plain HTML + CSS: shapes are divs, lines and the snake
+ * are inline SVG, and the dot travels the circuit with CSS offset-path
+ */
+export function exportHtmlCss(doc: CanvasDocument, options: HtmlExportOptions = {}): HtmlExport {
+  const prefix = options.className ?? 'loader'
+  const frame = getExportFrame(doc, options.padding ?? 16)
+  const loops = samplePathLoops(doc, options.samples ?? 120)
+  const isSnakeMode = doc.animation.animationMode === 'snake'
+  const f = formatNumber
+  const { center } = frame
+
+  // Connections (and the snake) stay SVG since CSS cannot stroke arbitrary paths
+  const defs = createSvgDefs(prefix)
+  const scene = sampleScene(doc, options.samples ?? 120)
+  const lines = doc.connections
+    .map((c) => {
+      const states = getSampledConnections(doc, scene, c)
+      return renderConnectionSvg(c, doc.shapes, defs, isSnakeMode && loops.length > 0 ? 0.3 : 1, states ? { states, duration: scene.duration } : undefined)
+    })
+    .join('')
+  const snakes = isSnakeMode
+    ? loops.map((loop, index) => {
+      // CSS can't swap gradient paints, so without a snake gradient the color
+      // stays that of the connection the head starts on
+      const headConnection = doc.connections.find(c => c.id === loop.connectionIds[0])
+      const headStroke = colorToBoundingBoxPaint(headConnection?.stroke ?? '#d946ef', defs)
+      const bands = getSnakeBands(doc.animation)
+      return bands.map((band, b) => {
+        // Only the outer ends of the snake get its cap so bands don't overlap
+        const cap = b === 0 || b === bands.length - 1 ? doc.animation.snakeCap : 'butt'
+        const opacity = band.opacity < 1 ? ` opacity="${f(band.opacity)}"` : ''
+        return `<path class="${prefix}-snake ${snakeBandClass(prefix, index, b, bands.length)}" d="${getLoopPathData(loop)}" fill="none"`
+          + ` stroke="${band.color ? escapeXml(band.color) : headStroke}" stroke-width="${f(band.width)}" stroke-linecap="${cap}" stroke-linejoin="round"${opacity}/>`
+      }).join('')
+    }).join('')
+    : ''
+  const stageWidth = frame.x + frame.width
+  const stageHeight = frame.y + frame.height
+  const svg = `<svg class="${prefix}-lines" width="${f(stageWidth)}" height="${f(stageHeight)}" viewBox="0 0 ${f(stageWidth)} ${f(stageHeight)}">${defs.toString()}${lines}${snakes}</svg>`
+
+  const dots = isSnakeMode
+    ? ''
+    : loops.map((_, index) => getDotTrail(doc.animation)
+      .map((_, i) => `<div class="${prefix}-dot ${prefix}-circuit-${index + 1}${i > 0 ? ` ${prefix}-dot-${i + 1}` : ''}"></div>`)
+      .join('')).join('')
+  const shapes = doc.shapes.map((_, i) => `<div class="${prefix}-shape ${prefix}-shape-${i + 1}"></div>`).join('')
+
+  const html = `<div class="${prefix}"><div class="${prefix}-stage">${svg}${dots}${shapes}</div></div>`
+
+  const rotationSpeed = getSpinSpeed(doc.animation)
+  const loopDuration = getLoopsDuration(loops)
+  // Ping-pong swings back and forth once per loop instead of spinning
+  const swing = getRotationKeyframes(doc.animation, loopDuration)
+  let spin = ''
+  if (swing) {
+    spin = `animation:${prefix}-spin ${f(loopDuration / 1000)}s linear infinite;`
+  } else if (rotationSpeed !== 0) {
+    spin = `animation:${prefix}-spin ${f(360 / Math.abs(rotationSpeed))}s linear infinite;`
+  }
+  const rules = [
+    `.${prefix}{position:relative;overflow:hidden;width:${f(frame.width)}px;height:${f(frame.height)}px;background:${options.background ?? 'transparent'}}`,
+    `.${prefix}-stage{position:absolute;left:${f(-frame.x)}px;top:${f(-frame.y)}px;width:${f(stageWidth)}px;height:${f(stageHeight)}px;`
+    + `transform-origin:${f(center.x)}px ${f(center.y)}px;transform:rotate(${f(doc.rotation)}deg);${spin}}`,
+    `.${prefix}-lines{position:absolute;left:0;top:0;overflow:visible}`,
+    `.${prefix}-shape{position:absolute;box-sizing:border-box}`,
+    ...doc.shapes.map((shape, i) => shapeRule(`.${prefix}-shape-${i + 1}`, shape)),
+  ]
+  doc.shapes.forEach((shape, i) => {
+    const states = getSampledShapeStates(doc, scene, shape.id)
+    if (!states) return
+    rules.push(shapeAnimationRules(
+      `.${prefix}-shape-${i + 1}`,
+      `${prefix}-shape-${i + 1}-effect`,
+      shape,
+      states,
+      scene.duration,
+      doc.animation.shapeEffects.color
+    ))
+  })
+  if (swing) {
+    const keyframes = swing.map(k => `${f(k.phase * 100)}%{transform:rotate(${f(doc.rotation + k.angle)}deg)}`).join('')
+    rules.push(`@keyframes ${prefix}-spin{${keyframes}}`)
+  } else if (rotationSpeed !== 0) {
+    rules.push(`@keyframes ${prefix}-spin{from{transform:rotate(${f(doc.rotation)}deg)}to{transform:rotate(${f(doc.rotation + Math.sign(rotationSpeed) * 360)}deg)}}`)
+  }
+  if (loops.length > 0) {
+    rules.push(isSnakeMode ? loops.map((loop, index) => snakeRules(prefix, doc, loop, index)).join('') : dotRules(prefix, doc, loops))
+  }
+
+  return { html, css: rules.join('\n') }
+}
+
+/**
+ * Single snippet with the stylesheet inlined, ready to paste into a page
+ */
+export function exportHtmlSnippet(doc: CanvasDocument, options: HtmlExportOptions = {}): string {
+  const { html, css } = exportHtmlCss(doc, options)
+  return `<style>\n${css}\n</style>\n${html}\n`
+}
@@ -0,0 +1,104 @@
+import type { BaseShape, ColorValue, Connection, ConnectionAnchor, GradientConfig } from '~/types/canvas'
+import { getColorAt, mixColors } from './useKonvaGradients'
+
+type Point = { x: number; y: number }
+
+/**
+ * Value between two numbers (t 0 = from, 1 = to; springy easing may overshoot)
+ */
+export function interpolateNumber(from: number, to: number, t: number): number {
+  return from + (to - from) * t
+}
+
+/**
+ * Curve offset between two connections' curves
+ * A straight line (null) bends like a curve whose control point sits on its midpoint
+ */
+export function interpolatePoint(from: Point | null, to: Point | null, t: number): Point | null {
+  if (from === null && to === null) return null
+  const a = from ?? { x: 0, y: 0 }
+  const b = to ?? { x: 0, y: 0 }
+  return { x: interpolateNumber(a.x, b.x, t), y: interpolateNumber(a.y, b.y, t) }
+}
+
+/**
+ * Angle in degrees between two angles, turning the short way round so 350deg
+ * to 10deg passes through 0
+ */
+export function interpolateAngle(from: number, to: number, t: number): number {
+  const delta = ((((to - from) % 360) + 540) % 360) - 180
+  return from + delta * t
+}
+
+// Solid color as a gradient of the same kind as another one, so the two can blend
+function solidGradient(color: string, like: GradientConfig): GradientConfig {
+  return {
+    type: like.type,
+    angle: like.angle,
+    stops: [{ offset: 0, color }, { offset: 1, color }],
+  }
+}
+
+// Stops at every offset either gradient has, each blended between the two gradients' colors there
+function interpolateGradients(from: GradientConfig, to: GradientConfig, t: number): GradientConfig {
+  const offsets = [...new Set([...from.stops, ...to.stops].map(stop => stop.offset))].sort((a, b) => a - b)
+  return {
+    // Linear and radial can't blend, so the kind switches halfway
+    type: t < 0.5 ? from.type : to.type,
+    angle: interpolateAngle(from.angle ?? 0, to.angle ?? 0, t),
+    stops: offsets.map(offset => ({ offset, color: mixColors(getColorAt(from, offset), getColorAt(to, offset), t) })),
+  }
+}
+
+/**
+ * Color between two colors; solid colors blend directly, and a gradient blends
+ * stop by stop (a solid color counts as a gradient of that one color)
+ */
+export function interpolateColor(from: ColorValue, to: ColorValue, t: number): ColorValue {
+  if (t <= 0) return from
+  if (t >= 1) return to
+  if (typeof from === 'string') {
+    return typeof to === 'string' ? mixColors(from, to, t) : interpolateGradients(solidGradient(from, to), to, t)
+  }
+  return interpolateGradients(from, typeof to === 'string' ? solidGradient(to, from) : to, t)
+}
+
+// Anchors slide the short way round the shape's outline, so 0.9 to 0.1 passes the top
+function interpolateAnchor(from: ConnectionAnchor, to: ConnectionAnchor, t: number): ConnectionAnchor {
+  if (t >= 1) return to
+  const delta = ((((to.position - from.position) % 1) + 1.5) % 1) - 0.5
+  return { ...to, position: (((from.position + delta * t) % 1) + 1) % 1 }
+}
+
+/**
+ * Shape between two versions of itself (the other settings are taken from `to`)
+ * Sizes only one of them has, such as a radius, switch over at the end
+ */
+export function interpolateShape(from: BaseShape, to: BaseShape, t: number): BaseShape {
+  const size = (a: number | undefined, b: number | undefined) =>
+    (a === undefined || b === undefined ? (t < 1 ? a : b) : interpolateNumber(a, b, t))
+  return {
+    ...to,
+    x: interpolateNumber(from.x, to.x, t),
+    y: interpolateNumber(from.y, to.y, t),
+    radius: size(from.radius, to.radius),
+    width: size(from.width, to.width),
+    height: size(from.height, to.height),
+    fill: interpolateColor(from.fill, to.fill, t),
+    opacity: interpolateNumber(from.opacity ?? 1, to.opacity ?? 1, t),
+  }
+}
+
+/**
+ * Connection between two versions of itself: its color, curve and the points
+ * it leaves and joins its shapes at (the shapes it joins are taken from `to`)
+ */
+export function interpolateConnection(from: Connection, to: Connection, t: number): Connection {
+  return {
+    ...to,
+    fromAnchor: interpolateAnchor(from.fromAnchor, to.fromAnchor, t),
+    toAnchor: interpolateAnchor(from.toAnchor, to.toAnchor, t),
+    stroke: interpolateColor(from.stroke, to.stroke, t),
+    curveOffset: interpolatePoint(from.curveOffset, to.curveOffset, t),
+  }
+}
@@ -87,6 +87,51 @@ export function getKonvaStrokeProps(
   }
 }
 
+function parseHexColor(color: string): [number, number, number] | null {
+  const hex = color.replace('#', '')
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex
+  if (!/^[0-9a-f]{6}$/i.test(full)) return null
+  return [0, 2, 4].map(i => parseInt(full.substr(i, 2), 16)) as [number, number, number]
+}
+
+/**
+ * Solid color at an offset (0-1) through a color's gradient stops
+ */
+export function getColorAt(color: ColorValue, offset: number): string {
+  if (typeof color === 'string') return color
+
+  const stops = [...color.stops].sort((a, b) => a.offset - b.offset)
+  if (stops.length === 0) return '#d946ef'
+  const t = Math.max(0, Math.min(1, offset))
+  const nextIndex = stops.findIndex(s => s.offset >= t)
+  if (nextIndex <= 0) return nextIndex === 0 ? stops[0]!.color : stops[stops.length - 1]!.color
+
+  const from = stops[nextIndex - 1]!
+  const to = stops[nextIndex]!
+  return mixColors(from.color, to.color, to.offset > from.offset ? (t - from.offset) / (to.offset - from.offset) : 1)
+}
+
+/**
+ * Blend of two colors (amount 0 = from, 1 = to)
+ * Colors that aren't hex can't be blended, so the nearer one is used as is
+ */
+export function mixColors(from: string, to: string, amount: number): string {
+  const fromRgb = parseHexColor(from)
+  const toRgb = parseHexColor(to)
+  if (!fromRgb || !toRgb) return amount < 0.5 ? from : to
+
+  const mix = Math.max(0, Math.min(1, amount))
+  return `#${fromRgb.map((c, i) => Math.round(c + (toRgb[i]! - c) * mix).toString(16).padStart(2, '0')).join('')}`
+}
+
+/**
+ * A color (or every stop of a gradient) blended toward a tint
+ */
+export function tintColor(color: ColorValue, tint: string, amount: number): ColorValue {
+  if (typeof color === 'string') return mixColors(color, tint, amount)
+  return { ...color, stops: color.stops.map(stop => ({ ...stop, color: mixColors(stop.color, tint, amount) })) }
+}
+
 /**
  * Get a CSS gradient string for preview purposes
  */
@@ -105,3 +150,39 @@ export function getCSSGradient(color: ColorValue, angle: number = 135): string {
     return `radial-gradient(circle, ${stops})`
   }
 }
+
+/**
+ * Outline color for a shape (darker version of its fill, darker still when selected)
+ */
+export function getShapeStrokeColor(fillColor: ColorValue, isSelected: boolean): string {
+  // Extract base color from gradient if needed
+  let baseColor: string
+  if (typeof fillColor === 'string') {
+    baseColor = fillColor
+  } else {
+    // Use first stop color for gradients
+    baseColor = fillColor.stops[0]?.color || '#a855f7'
+  }
+
+  if (!isSelected) {
+    // For unselected shapes, use a darker shade of the fill color
+    // Convert hex to RGB, darken, and convert back
+    const hex = baseColor.replace('#', '')
+    const r = parseInt(hex.substr(0, 2), 16)
+    const g = parseInt(hex.substr(2, 2), 16)
+    const b = parseInt(hex.substr(4, 2), 16)
+    const darkerR = Math.max(0, r - 40).toString(16).padStart(2, '0')
+    const darkerG = Math.max(0, g - 40).toString(16).padStart(2, '0')
+    const darkerB = Math.max(0, b - 40).toString(16).padStart(2, '0')
+    return `#${darkerR}${darkerG}${darkerB}`
+  }
+  // For selected shapes, use a much darker shade
+  const hex = baseColor.replace('#', '')
+  const r = parseInt(hex.substr(0, 2), 16)
+  const g = parseInt(hex.substr(2, 2), 16)
+  const b = parseInt(hex.substr(4, 2), 16)
+  const darkerR = Math.max(0, r - 80).toString(16).padStart(2, '0')
+  const darkerG = Math.max(0, g - 80).toString(16).padStart(2, '0')
+  const darkerB = Math.max(0, b - 80).toString(16).padStart(2, '0')
+  return `#${darkerR}${darkerG}${darkerB}`
+}
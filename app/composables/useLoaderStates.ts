@@ -0,0 +1,112 @@
+import type {
+  AnimationConfig,
+  BaseShape,
+  Connection,
+  LoaderStateConfig,
+  LoaderStateMotion,
+  LoaderStateName,
+  LoaderStateOverride,
+  TimelineProperty,
+} from '~/types/canvas'
+import { createDefaultLoaderStates } from './useCanvasState'
+import { interpolateConnection, interpolateShape } from './useInterpolation'
+import { applyTimeline } from './useTimeline'
+
+type Scene = { shapes: BaseShape[]; connections: Connection[] }
+
+export const LOADER_STATES: Array<{ name: LoaderStateName; label: string }> = [
+  { name: 'loading', label: 'Loading' },
+  { name: 'success', label: 'Success' },
+  { name: 'error', label: 'Error' },
+]
+
+export const STATE_MOTIONS: Array<{ motion: LoaderStateMotion; label: string }> = [
+  { motion: 'loop', label: 'Keep Looping' },
+  { motion: 'reverse', label: 'Turn Back' },
+  { motion: 'fill', label: 'Fill Circuit' },
+  { motion: 'stop', label: 'Stop' },
+]
+
+/**
+ * Settings of a named state (the default ones if the design has none stored)
+ */
+export function getLoaderState(config: AnimationConfig, name: LoaderStateName): LoaderStateConfig {
+  return config.states.find(state => state.name === name)
+    ?? createDefaultLoaderStates().find(state => state.name === name)!
+}
+
+/**
+ * The scene in a state: copies of the shapes and connections with its
+ * overrides applied (the same arrays when it has none)
+ * An override is handled like a timeline track holding one value
+ */
+export function applyLoaderState(shapes: BaseShape[], connections: Connection[], state: LoaderStateConfig): Scene {
+  const tracks = state.overrides.map(override => ({
+    targetId: override.targetId,
+    property: override.property,
+    keyframes: [{ offset: 0, value: override.value, easing: state.easing }],
+  }))
+  return applyTimeline(shapes, connections, tracks, 0)
+}
+
+/**
+ * Scene part way through a morph from one state's scene to another's
+ * (t 0 = from, 1 = to); shapes and lines only in one of them snap over
+ */
+export function blendScenes(from: Scene, to: Scene, t: number): Scene {
+  if (t >= 1) return to
+  const shapes = new Map(from.shapes.map(shape => [shape.id, shape]))
+  const connections = new Map(from.connections.map(connection => [connection.id, connection]))
+  return {
+    shapes: to.shapes.map((shape) => {
+      const previous = shapes.get(shape.id)
+      return previous ? interpolateShape(previous, shape, t) : shape
+    }),
+    connections: to.connections.map((connection) => {
+      const previous = connections.get(connection.id)
+      return previous ? interpolateConnection(previous, connection, t) : connection
+    }),
+  }
+}
+
+/**
+ * Animation settings for a state's motion: turning back flips a one-way
+ * direction, and filling runs the dot or snake on to the end of the circuit
+ * (stopping is left to the player, which fades the dot out)
+ */
+export function getStateMotionConfig(config: AnimationConfig, motion: LoaderStateMotion): AnimationConfig {
+  if (motion === 'reverse' && (config.direction === 'forward' || config.direction === 'reverse')) {
+    return { ...config, direction: config.direction === 'forward' ? 'reverse' : 'forward' }
+  }
+  if (motion === 'fill') {
+    return { ...config, progressMode: 'determinate', progress: 1 }
+  }
+  return config
+}
+
+/**
+ * Copy of the states with one changed
+ */
+export function updateLoaderState(
+  states: LoaderStateConfig[],
+  name: LoaderStateName,
+  changes: Partial<Omit<LoaderStateConfig, 'name'>>
+): LoaderStateConfig[] {
+  const all = LOADER_STATES.map(option => states.find(s => s.name === option.name)
+    ?? createDefaultLoaderStates().find(s => s.name === option.name)!)
+  return all.map(state => (state.name === name ? { ...state, ...changes } : state))
+}
+
+/**
+ * Copy of the state's overrides with one set, replacing any for the same property
+ */
+export function setStateOverride(overrides: LoaderStateOverride[], override: LoaderStateOverride): LoaderStateOverride[] {
+  return [
+    ...overrides.filter(o => o.targetId !== override.targetId || o.property !== override.property),
+    override,
+  ]
+}
+
+export function removeStateOverride(overrides: LoaderStateOverride[], targetId: string, property: TimelineProperty): LoaderStateOverride[] {
+  return overrides.filter(o => o.targetId !== targetId || o.property !== property)
+}
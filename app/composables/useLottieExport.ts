@@ -0,0 +1,574 @@
+import type { BaseShape, CanvasDocument, ColorValue, Connection } from '~/types/canvas'
+import { getConnectionGeometry } from './useCanvasState'
+import { getKonvaFillProps, getKonvaStrokeProps, getShapeStrokeColor } from './useKonvaGradients'
+import { getDotTrail, getRotationKeyframes, getSnakeBands, getSpinSpeed } from './usePathAnimation'
+import {
+  getExportFrame,
+  getLoopsDuration,
+  getSampledConnections,
+  getSampledShapeStates,
+  getShapeStateTransform,
+  samplePathLoops,
+  sampleScene,
+} from './useSvgExport'
+import { getShapeLocalCenter } from './useShapeEffects'
+
+type Point = { x: number; y: number }
+type LottieItem = Record<string, unknown>
+type LottieLayer = Record<string, unknown>
+
+export interface LottieExportOptions {
+  fps?: number
+  padding?: number  // Space around the design in px
+  background?: string | null  // null = transparent
+  samples?: number  // Motion keyframes per loop
+  maxLoops?: number  // Upper bound when searching for a seamless rotation
+}
+
+export interface LottieAnimation {
+  v: string
+  nm: string
+  fr: number
+  ip: number
+  op: number
+  w: number
+  h: number
+  ddd: 0
+  assets: []
+  layers: LottieLayer[]
+}
+
+const LOTTIE_VERSION = '5.7.4'
+// Rotation counts as seamless when the loop ends within this many degrees of a full turn
+const ROTATION_TOLERANCE = 0.5
+const ROTATION_LAYER_INDEX = 1
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function staticValue(k: unknown) {
+  return { a: 0, k }
+}
+
+/**
+ * Linearly interpolated keyframes; the last key only marks the end value
+ */
+function animatedValue(keys: Array<{ t: number; s: number[] }>, spatial: boolean) {
+  const ease = spatial
+    ? { o: { x: 0, y: 0 }, i: { x: 1, y: 1 } }
+    : { o: { x: [0], y: [0] }, i: { x: [1], y: [1] } }
+  return {
+    a: 1,
+    k: keys.map((key, index) => index < keys.length - 1
+      ? { t: round(key.t), s: key.s.map(round), ...ease }
+      : { t: round(key.t), s: key.s.map(round) }),
+  }
+}
+
+/**
+ * #rgb / #rrggbb / #rrggbbaa to Lottie's normalized RGBA
+ */
+export function hexToLottieColor(hex: string): [number, number, number, number] {
+  let value = hex.replace('#', '')
+  if (value.length === 3) value = value.split('').map(c => c + c).join('')
+  const channel = (i: number) => {
+    const parsed = parseInt(value.substr(i * 2, 2), 16)
+    return Number.isNaN(parsed) ? 0 : round(parsed / 255)
+  }
+  return [channel(0), channel(1), channel(2), value.length >= 8 ? channel(3) : 1]
+}
+
+function gradientStops(stops: unknown) {
+  const flat = Array.isArray(stops) ? stops : []
+  const values: number[] = []
+  for (let i = 0; i + 1 < flat.length; i += 2) {
+    const [r, g, b] = hexToLottieColor(String(flat[i + 1]))
+    values.push(round(Number(flat[i])), r, g, b)
+  }
+  return { p: values.length / 4, k: staticValue(values) }
+}
+
+/**
+ * Turn Konva fill/stroke props into a Lottie fill (fl/gf) or stroke (st/gs) item
+ * `offset` moves the Konva coordinates into the layer's space
+ */
+function konvaPropsToLottiePaint(
+  props: Record<string, unknown>,
+  kind: 'fill' | 'stroke',
+  offset: Point,
+  style: LottieItem = {}
+): LottieItem {
+  const isFill = kind === 'fill'
+  const base = { o: staticValue(100), ...(isFill ? { r: 1 } : style) }
+  const shift = (p: Point) => [round(p.x + offset.x), round(p.y + offset.y)]
+
+  if (typeof props[kind] === 'string') {
+    return { ty: isFill ? 'fl' : 'st', c: staticValue(hexToLottieColor(props[kind] as string)), ...base }
+  }
+
+  const linearStart = props[`${kind}LinearGradientStartPoint`] as Point | undefined
+  const linearEnd = props[`${kind}LinearGradientEndPoint`] as Point | undefined
+  if (linearStart && linearEnd) {
+    return {
+      ty: isFill ? 'gf' : 'gs',
+      t: 1,
+      s: staticValue(shift(linearStart)),
+      e: staticValue(shift(linearEnd)),
+      g: gradientStops(props[`${kind}LinearGradientColorStops`]),
+      ...base,
+    }
+  }
+
+  const center = props[`${kind}RadialGradientStartPoint`] as Point | undefined
+  const radius = (props[`${kind}RadialGradientEndRadius`] as number | undefined) ?? 0
+  return {
+    ty: isFill ? 'gf' : 'gs',
+    t: 2,
+    s: staticValue(shift(center ?? { x: 0, y: 0 })),
+    e: staticValue(shift({ x: (center?.x ?? 0) + radius, y: center?.y ?? 0 })),
+    h: staticValue(0),
+    a: staticValue(0),
+    g: gradientStops(props[`${kind}RadialGradientColorStops`]),
+    ...base,
+  }
+}
+
+function pathItem(vertices: Point[], inTangents: Point[], outTangents: Point[], closed: boolean): LottieItem {
+  const toArray = (points: Point[]) => points.map(p => [round(p.x), round(p.y)])
+  return {
+    ty: 'sh',
+    ks: staticValue({ c: closed, v: toArray(vertices), i: toArray(inTangents), o: toArray(outTangents) }),
+  }
+}
+
+function polylineItem(points: Point[], closed: boolean): LottieItem {
+  const zero = points.map(() => ({ x: 0, y: 0 }))
+  return pathItem(points, zero, zero, closed)
+}
+
+function groupItem(name: string, items: LottieItem[], transform: LottieItem = {}): LottieItem {
+  return {
+    ty: 'gr',
+    nm: name,
+    it: [
+      ...items,
+      {
+        ty: 'tr',
+        p: staticValue([0, 0]),
+        a: staticValue([0, 0]),
+        s: staticValue([100, 100]),
+        r: staticValue(0),
+        o: staticValue(100),
+        sk: staticValue(0),
+        sa: staticValue(0),
+        ...transform,
+      },
+    ],
+  }
+}
+
+/**
+ * Keyframes of a shape's keyframed motion and effect over the whole composition
+ * Glow is left out since shape layers can't blur
+ */
+interface ShapeGroupAnimation {
+  position: Array<{ t: number; s: number[] }>  // Of the shape's center
+  scale: Array<{ t: number; s: number[] }>
+  opacity: Array<{ t: number; s: number[] }>
+  fill: Array<{ t: number; s: number[] }> | null  // Solid fills only
+}
+
+function shapeGroup(shape: BaseShape, center: Point, animation?: ShapeGroupAnimation): LottieItem {
+  const origin = { x: shape.x - center.x, y: shape.y - center.y }
+  const strokeColor = hexToLottieColor(getShapeStrokeColor(shape.fill, false))
+  // Styles apply to the paths listed before them and the first item draws on top
+  const stroke = { ty: 'st', c: staticValue(strokeColor), o: staticValue(100), w: staticValue(2), lc: 2, lj: 2, ml: 4 }
+  // Shapes scale around their center
+  const pivot = getShapeLocalCenter(shape)
+  let transform: LottieItem = {}
+  if (animation) {
+    transform = {
+      p: animatedValue(animation.position, true),
+      a: staticValue([round(origin.x + pivot.x), round(origin.y + pivot.y)]),
+      s: animatedValue(animation.scale, false),
+      o: animatedValue(animation.opacity, false),
+    }
+  } else if ((shape.opacity ?? 1) < 1) {
+    transform = { o: staticValue(round((shape.opacity ?? 1) * 100)) }
+  }
+  const paint = (props: Record<string, unknown>) => {
+    const fill = konvaPropsToLottiePaint(props, 'fill', origin)
+    return animation?.fill ? { ...fill, c: animatedValue(animation.fill, false) } : fill
+  }
+
+  if (shape.type === 'circle') {
+    const r = shape.radius || 20
+    const fill = paint(getKonvaFillProps(shape.fill, { width: r * 2, height: r * 2 }))
+    return groupItem(shape.id, [
+      { ty: 'el', p: staticValue([round(origin.x), round(origin.y)]), s: staticValue([r * 2, r * 2]) },
+      stroke,
+      fill,
+    ], transform)
+  }
+
+  const w = shape.width || 40
+  const h = shape.height || 40
+  const fill = paint(getKonvaFillProps(shape.fill, { width: w, height: h }))
+  const geometry = shape.type === 'square'
+    ? { ty: 'rc', p: staticValue([round(origin.x + w / 2), round(origin.y + h / 2)]), s: staticValue([w, h]), r: staticValue(4) }
+    : polylineItem([
+        { x: origin.x, y: origin.y + h },
+        { x: origin.x + w / 2, y: origin.y },
+        { x: origin.x + w, y: origin.y + h },
+      ], true)
+  return groupItem(shape.id, [geometry, stroke, fill], transform)
+}
+
+// Connection as a two-vertex bezier; a straight line just has no tangents, so
+// straight and curved states of a keyframed line can blend
+function connectionBezier(connection: Connection, shapes: BaseShape[], center: Point) {
+  const geometry = getConnectionGeometry(connection, shapes)
+  if (!geometry) return null
+
+  const local = (p: Point) => ({ x: p.x - center.x, y: p.y - center.y })
+  const from = local(geometry.from)
+  const to = local(geometry.to)
+  // Quadratic curve as the equivalent cubic; tangents are relative to their vertex
+  const control = geometry.control ? local(geometry.control) : null
+  const toArray = (points: Point[]) => points.map(p => [round(p.x), round(p.y)])
+  return {
+    from,
+    to,
+    path: {
+      c: false,
+      v: toArray([from, to]),
+      i: toArray([{ x: 0, y: 0 }, control ? { x: (2 / 3) * (control.x - to.x), y: (2 / 3) * (control.y - to.y) } : { x: 0, y: 0 }]),
+      o: toArray([control ? { x: (2 / 3) * (control.x - from.x), y: (2 / 3) * (control.y - from.y) } : { x: 0, y: 0 }, { x: 0, y: 0 }]),
+    },
+  }
+}
+
+/**
+ * A connection's keyframed states over the whole composition
+ */
+type ConnectionGroupAnimation = Array<{ t: number; connection: Connection; shapes: BaseShape[] }>
+
+function connectionGroup(connection: Connection, shapes: BaseShape[], center: Point, opacity: number, animation?: ConnectionGroupAnimation): LottieItem | null {
+  const bezier = connectionBezier(connection, shapes, center)
+  if (!bezier) return null
+
+  let path: LottieItem = { ty: 'sh', ks: staticValue(bezier.path) }
+  const paths = animation?.map(key => ({ t: key.t, bezier: connectionBezier(key.connection, key.shapes, center) }))
+  if (paths && paths.every(key => key.bezier !== null)) {
+    path = {
+      ty: 'sh',
+      ks: {
+        a: 1,
+        k: paths.map((key, index) => index < paths.length - 1
+          ? { t: round(key.t), s: [key.bezier!.path], o: { x: [0], y: [0] }, i: { x: [1], y: [1] } }
+          : { t: round(key.t), s: [key.bezier!.path] }),
+      },
+    }
+  }
+
+  const stroke = konvaPropsToLottiePaint(getKonvaStrokeProps(connection.stroke, bezier.from, bezier.to), 'stroke', { x: 0, y: 0 }, {
+    o: staticValue(opacity * 100),
+    w: staticValue(3),
+    lc: 2,
+    lj: 2,
+    ml: 4,
+  })
+  const strokes = animation?.map(key => key.connection.stroke)
+  if (animation && typeof connection.stroke === 'string' && strokes?.every(c => typeof c === 'string') && strokes.some(c => c !== connection.stroke)) {
+    stroke.c = animatedValue(animation.map(key => ({ t: key.t, s: hexToLottieColor(key.connection.stroke as string) })), false)
+  }
+  return groupItem(connection.id, [path, stroke])
+}
+
+/**
+ * Gradient endpoints spanning the bounding box of the points, like a CSS/SVG
+ * objectBoundingBox gradient (used for the snake, whose geometry is the whole loop)
+ */
+function boundingBoxStroke(color: ColorValue, points: Point[]): Record<string, unknown> {
+  if (typeof color === 'string') return { stroke: color }
+
+  const minX = Math.min(...points.map(p => p.x))
+  const maxX = Math.max(...points.map(p => p.x))
+  const minY = Math.min(...points.map(p => p.y))
+  const maxY = Math.max(...points.map(p => p.y))
+  const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 }
+  const angle = ((color.angle ?? 0) * Math.PI) / 180
+  const halfX = (Math.cos(angle) * (maxX - minX)) / 2
+  const halfY = (Math.sin(angle) * (maxY - minY)) / 2
+  return getKonvaStrokeProps(color, { x: center.x - halfX, y: center.y - halfY }, { x: center.x + halfX, y: center.y + halfY })
+}
+
+/**
+ * Smallest number of path loops after which the rotation is (almost) back
+ * where it started, so the composition can repeat without a visible jump
+ */
+export function findSeamlessLoopCount(loopDuration: number, rotationSpeed: number, maxLoops: number): number {
+  if (rotationSpeed === 0 || loopDuration === 0) return 1
+
+  const degreesPerLoop = (Math.abs(rotationSpeed) * loopDuration) / 1000
+  let best = 1
+  let bestError = Infinity
+  for (let loops = 1; loops <= maxLoops; loops++) {
+    const degrees = degreesPerLoop * loops
+    const error = Math.abs(degrees - Math.max(1, Math.round(degrees / 360)) * 360)
+    if (error < bestError - 1e-9) {
+      best = loops
+      bestError = error
+    }
+    if (error <= ROTATION_TOLERANCE) break
+  }
+  return best
+}
+
+function layer(index: number, type: number, name: string, op: number, extra: Record<string, unknown>): LottieLayer {
+  return {
+    ddd: 0,
+    ind: index,
+    ty: type,
+    nm: name,
+    sr: 1,
+    ks: {
+      o: staticValue(100),
+      r: staticValue(0),
+      p: staticValue([0, 0, 0]),
+      a: staticValue([0, 0, 0]),
+      s: staticValue([100, 100, 100]),
+    },
+    ao: 0,
+    ip: 0,
+    op,
+    st: 0,
+    bm: 0,
+    ...extra,
+  }
+}
+
+/**
+ * Convert the design to a Lottie (bodymovin) animation.
+ * A null layer at the constellation center carries the rotation and every
+ * other layer is parented to it. The dot's glow is left out since layer
+ * effects are not supported by most Lottie players.
+ */
+export function exportLottie(doc: CanvasDocument, options: LottieExportOptions = {}): LottieAnimation {
+  const fps = options.fps ?? 60
+  const frame = getExportFrame(doc, options.padding ?? 16)
+  const sampledLoops = samplePathLoops(doc, options.samples ?? 120)
+  const { center } = frame
+  const isSnakeMode = doc.animation.animationMode === 'snake'
+
+  // Composition length: whole path loops, extended until the rotation lines up too
+  // Every circuit completes its whole number of laps in one loop
+  const first = sampledLoops[0]
+  const loopDuration = getLoopsDuration(sampledLoops)
+  const loopFrames = (loopDuration / 1000) * fps
+  // Ping-pong rotation swings back to the start every loop
+  const swing = getRotationKeyframes(doc.animation, loopDuration)
+  const rotationSpeed = swing ? 0 : getSpinSpeed(doc.animation)
+  const loops = first ? findSeamlessLoopCount(loopDuration, rotationSpeed, options.maxLoops ?? 12) : 0
+  let op: number
+  if (first) {
+    op = loops * loopFrames
+  } else if (rotationSpeed !== 0) {
+    op = (360 / Math.abs(rotationSpeed)) * fps
+  } else {
+    op = fps
+  }
+  op = Math.max(1, round(op))
+
+  // Rotation ends on a whole number of turns; the speed is nudged slightly if needed
+  const turns = rotationSpeed === 0
+    ? 0
+    : Math.max(1, Math.round((Math.abs(rotationSpeed) * op) / fps / 360)) * Math.sign(rotationSpeed)
+  let rotationValue = turns === 0
+    ? staticValue(round(doc.rotation))
+    : animatedValue([{ t: 0, s: [doc.rotation] }, { t: op, s: [doc.rotation + turns * 360] }], false)
+  if (swing) {
+    const keyframes: Array<{ t: number; s: number[] }> = []
+    for (let j = 0; j < loops; j++) {
+      for (const k of swing.slice(j === 0 ? 0 : 1)) {
+        keyframes.push({ t: (j + k.phase) * loopFrames, s: [doc.rotation + k.angle] })
+      }
+    }
+    rotationValue = animatedValue(keyframes, false)
+  }
+  const rotationLayer = layer(ROTATION_LAYER_INDEX, 3, 'Rotation', op, {
+    ks: {
+      o: staticValue(0),
+      r: rotationValue,
+      p: staticValue([round(center.x - frame.x), round(center.y - frame.y), 0]),
+      a: staticValue([0, 0, 0]),
+      s: staticValue([100, 100, 100]),
+    },
+  })
+
+  const layers: LottieLayer[] = [rotationLayer]
+  let nextIndex = ROTATION_LAYER_INDEX + 1
+  const childLayer = (name: string, shapes: LottieItem[], extra: Record<string, unknown> = {}) => {
+    layers.push(layer(nextIndex++, 4, name, op, { parent: ROTATION_LAYER_INDEX, shapes, ...extra }))
+  }
+
+  // Keyframes and shape effects repeat every loop of the design
+  const scene = sampleScene(doc, options.samples ?? 120)
+  const sceneKeys = <T>(states: T[], value: (state: T) => number[]) => {
+    const count = states.length - 1
+    const keys: Array<{ t: number; s: number[] }> = []
+    for (let j = 0; j < loops; j++) {
+      states.slice(0, count).forEach((state, i) => keys.push({ t: (j + i / count) * loopFrames, s: value(state) }))
+    }
+    keys.push({ t: op, s: value(states[count]!) })
+    return keys
+  }
+  const shapeAnimation = (shape: BaseShape): ShapeGroupAnimation | undefined => {
+    const states = getSampledShapeStates(doc, scene, shape.id)
+    if (!states) return undefined
+    const pivot = getShapeLocalCenter(shape)
+    const fills = states.map(state => state.style.fill)
+    const changesFill = typeof shape.fill === 'string' && fills.every(c => typeof c === 'string') && fills.some(c => c !== shape.fill)
+    return {
+      position: sceneKeys(states, (state) => {
+        const { x, y, scale } = getShapeStateTransform(shape, state)
+        return [shape.x - center.x + x + scale * pivot.x, shape.y - center.y + y + scale * pivot.y]
+      }),
+      scale: sceneKeys(states, (state) => {
+        const { scale } = getShapeStateTransform(shape, state)
+        return [scale * 100, scale * 100]
+      }),
+      opacity: sceneKeys(states, state => [(state.shape.opacity ?? 1) * state.style.opacity * 100]),
+      fill: changesFill ? sceneKeys(states, state => hexToLottieColor(state.style.fill as string)) : null,
+    }
+  }
+  const connectionAnimation = (connection: Connection): ConnectionGroupAnimation | undefined => {
+    const states = getSampledConnections(doc, scene, connection)
+    if (!states) return undefined
+    const count = states.length - 1
+    const keys: ConnectionGroupAnimation = []
+    for (let j = 0; j < loops; j++) {
+      states.slice(0, count).forEach((state, i) => keys.push({ t: (j + i / count) * loopFrames, ...state }))
+    }
+    keys.push({ t: op, ...states[count]! })
+    return keys
+  }
+
+  childLayer('Shapes', doc.shapes.map(s => shapeGroup(s, center, shapeAnimation(s))).reverse())
+
+  sampledLoops.forEach((loop, circuitIndex) => {
+    // Later circuits are named after their position so the layer list stays readable
+    const name = (base: string) => (circuitIndex === 0 ? base : `Circuit ${circuitIndex + 1} ${base}`)
+    const local = loop.points.map(p => ({ x: p.x - center.x, y: p.y - center.y }))
+    const samples = local.length - 1
+    const arcTotal = loop.arcLengths[samples] || 1
+    const lapFrames = loopFrames / loop.laps
+    const laps = loops * loop.laps
+    // Samples the circuit runs ahead of its lap start
+    const lead = Math.round((loop.phaseOffset - Math.floor(loop.phaseOffset)) * samples) % samples
+
+    if (isSnakeMode) {
+      // Trim a window of snakeLength and slide it along the loop with the offset (360 = one lap)
+      const snakeLength = doc.animation.snakeLength
+      const trimOffset = (k: number, lap: number) => (loop.arcLengths[k % samples]! / arcTotal + Math.floor(k / samples) - snakeLength) * 360 + lap * 360
+      const offsets: Array<{ t: number; s: number[] }> = []
+      for (let j = 0; j < laps; j++) {
+        for (let i = 0; i < samples; i++) {
+          offsets.push({ t: (j + i / samples) * lapFrames, s: [trimOffset(i + lead, j)] })
+        }
+      }
+      offsets.push({ t: op, s: [trimOffset(lead, laps)] })
+
+      // Lottie can't swap paints, so without a snake gradient the color stays
+      // that of the connection the head starts on
+      const headConnection = doc.connections.find(c => c.id === loop.connectionIds[0])
+      const bands = getSnakeBands(doc.animation)
+      const bandGroups = bands.map((band, b) => {
+        // Only the outer ends of the snake get its cap so bands don't overlap
+        const cap = (b === 0 || b === bands.length - 1) && doc.animation.snakeCap === 'round' ? 2 : 1
+        const stroke = konvaPropsToLottiePaint(
+          band.color ? { stroke: band.color } : boundingBoxStroke(headConnection?.stroke ?? '#d946ef', local),
+          'stroke',
+          { x: 0, y: 0 },
+          { o: staticValue(round(band.opacity * 100)), w: staticValue(round(band.width)), lc: cap, lj: 2, ml: 4 }
+        )
+        return groupItem(bands.length > 1 ? `Band ${b + 1}` : 'Snake', [
+          polylineItem(local, false),
+          {
+            ty: 'tm',
+            s: staticValue(round(band.start * snakeLength * 100)),
+            e: staticValue(round(band.end * snakeLength * 100)),
+            o: animatedValue(offsets, false),
+            m: 1,
+          },
+          stroke,
+        ])
+      })
+      // Head band on top
+      childLayer(name('Snake'), bandGroups.reverse())
+    } else {
+      const isClosed = Math.hypot(local[0]!.x - local[samples]!.x, local[0]!.y - local[samples]!.y) < 0.5
+      const { dotSize, dotColor } = doc.animation
+
+      // Trailing dots replay the lead dot's samples shifted back by their offset
+      getDotTrail(doc.animation).forEach(({ offset, scale }, index) => {
+        const shift = (Math.round((offset - Math.floor(offset)) * samples) - lead + samples) % samples
+        const positions: Array<{ t: number; s: number[] }> = []
+        for (let j = 0; j < laps; j++) {
+          for (let i = 0; i < samples; i++) {
+            const k = (i - shift + samples) % samples
+            const t = (j + i / samples) * lapFrames
+            // Open paths jump back to the start like the live dot instead of sliding back
+            if (!isClosed && k === 0 && t > 0) {
+              positions.push({ t: t - 0.01, s: [local[samples]!.x, local[samples]!.y, 0] })
+            }
+            positions.push({ t, s: [local[k]!.x, local[k]!.y, 0] })
+          }
+        }
+        positions.push({ t: op, s: [local[samples - shift]!.x, local[samples - shift]!.y, 0] })
+
+        childLayer(name(index === 0 ? 'Dot' : `Dot ${index + 1}`), [groupItem('Dot', [
+          { ty: 'el', p: staticValue([0, 0]), s: staticValue([round(dotSize * 2 * scale), round(dotSize * 2 * scale)]) },
+          { ty: 'fl', c: staticValue(hexToLottieColor(dotColor)), o: staticValue(100), r: 1 },
+        ])], {
+          ks: {
+            o: staticValue(round(scale * 100)),
+            r: staticValue(0),
+            p: animatedValue(positions, true),
+            a: staticValue([0, 0, 0]),
+            s: staticValue([100, 100, 100]),
+          },
+        })
+      })
+    }
+  })
+
+  const lineOpacity = isSnakeMode && first ? 0.3 : 1
+  childLayer('Lines', doc.connections
+    .map(c => connectionGroup(c, doc.shapes, center, lineOpacity, connectionAnimation(c)))
+    .filter((item): item is LottieItem => item !== null)
+    .reverse())
+
+  if (options.background) {
+    layers.push(layer(nextIndex++, 4, 'Background', op, {
+      shapes: [groupItem('Background', [
+        { ty: 'rc', p: staticValue([round(frame.width / 2), round(frame.height / 2)]), s: staticValue([round(frame.width), round(frame.height)]), r: staticValue(0) },
+        { ty: 'fl', c: staticValue(hexToLottieColor(options.background)), o: staticValue(100), r: 1 },
+      ])],
+    }))
+  }
+
+  return {
+    v: LOTTIE_VERSION,
+    nm: 'Loader',
+    fr: fps,
+    ip: 0,
+    op,
+    w: Math.round(frame.width),
+    h: Math.round(frame.height),
+    ddd: 0,
+    assets: [],
+    layers,
+  }
+}
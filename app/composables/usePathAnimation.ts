@@ -1,20 +1,38 @@
 import { ref, onUnmounted, watch } from 'vue'
-import type { Connection, BaseShape, AnimationConfig, ColorValue } from '~/types/canvas'
-import { getAnchorPosition } from './useCanvasState'
+import type { Connection, BaseShape, AnimationConfig, CircuitStep, LoaderStateName, PlaybackDirection, ProgressMode, ShapeEffectConfig, SnakeCap, SnakeColorMode, SubCircuitConfig, TransitionMode } from '~/types/canvas'
+import { createDefaultSubCircuitConfig, getAnchorPosition } from './useCanvasState'
+import { getConnectionGroups } from './useCircuitGraph'
+import { resolveCircuitOrder, reverseCircuitOrder } from './useCircuitOrder'
+import { createEasingFunction } from './useEasing'
+import { getColorAt } from './useKonvaGradients'
+import { applyLoaderState, blendScenes, getLoaderState, getStateMotionConfig } from './useLoaderStates'
+import { applyTimeline } from './useTimeline'
 
 export interface AnimationDot {
   connectionId: string
   x: number
   y: number
   progress: number
+  size: number  // Radius in px (trailing dots shrink with dotFalloff)
+  opacity: number
 }
 
 export interface SnakeSegment {
-  points: number[]  // [x1, y1, x2, y2, ...] for the visible line (sampled points)
-  stroke: ColorValue  // Color from the connection
+  points: number[]  // [x1, y1, x2, y2, ...] sampled along the body from the tail to the head
+  pieces: SnakePiece[]  // Filled outline of the body, tail first
 }
 
-interface CircuitSegment {
+/**
+ * A stretch of the snake body drawn in one color and opacity, as a closed
+ * polygon; neighbouring pieces share an edge so faded pieces never overlap
+ */
+export interface SnakePiece {
+  outline: number[]  // [x1, y1, x2, y2, ...]
+  color: string
+  opacity: number
+}
+
+export interface CircuitSegment {
   type: 'connection' | 'transition'
   // For connection segments
   connection?: Connection
@@ -23,582 +41,1163 @@ interface CircuitSegment {
   shape?: BaseShape
   fromAnchor?: number  // normalized 0-1 position along perimeter
   toAnchor?: number    // normalized 0-1 position along perimeter
+  transitionMode?: TransitionMode  // Route across the shape (center or perimeter)
+  arcTable?: ArcLengthTable  // Arc-length lookup for the route across the shape
   // Common
   startDistance: number
   endDistance: number
 }
 
-export function usePathAnimation(
-  connections: () => Connection[],
-  shapes: () => BaseShape[],
-  config: () => AnimationConfig
-) {
-  const isPlaying = ref(false)
-  // Use ref for animation state
-  const animationDots = ref<AnimationDot[]>([])
-  const snakeSegment = ref<SnakeSegment | null>(null)
-  let animationFrameId: number | null = null
-  let startTime: number | null = null
+/**
+ * Cumulative arc length of a curve at evenly spaced t, used to map a distance
+ * along the curve back to t so motion has the same pixel speed everywhere
+ */
+export interface ArcLengthTable {
+  length: number
+  lengths: number[]  // lengths[i] = arc length from t = 0 to t = i / ARC_TABLE_SAMPLES
+}
 
-  // Helper to get shape center
-  function getShapeCenter(shape: BaseShape): { x: number; y: number } {
-    if (shape.type === 'circle') {
-      return { x: shape.x, y: shape.y }
-    }
-    const width = shape.width || 40
-    const height = shape.height || 40
-    return { x: shape.x + width / 2, y: shape.y + height / 2 }
+const ARC_TABLE_SAMPLES = 64
+
+function buildArcLengthTable(pointAt: (t: number) => { x: number; y: number }): ArcLengthTable {
+  const lengths = [0]
+  let previous = pointAt(0)
+  let length = 0
+  for (let i = 1; i <= ARC_TABLE_SAMPLES; i++) {
+    const point = pointAt(i / ARC_TABLE_SAMPLES)
+    length += Math.hypot(point.x - previous.x, point.y - previous.y)
+    lengths.push(length)
+    previous = point
   }
+  return { length, lengths }
+}
 
-  // Get point on shape perimeter at normalized position (0-1)
-  function getPointOnShapePerimeter(shape: BaseShape, anchorPosition: number): { x: number; y: number } {
-    // Reuse the anchor position logic from useCanvasState
-    return getAnchorPosition(shape, { position: anchorPosition })
+// Curve parameter t at a fraction (0-1) of the curve's arc length
+function getTAtArcFraction(table: ArcLengthTable, fraction: number): number {
+  if (table.length === 0) return fraction
+  const target = Math.max(0, Math.min(1, fraction)) * table.length
+  const { lengths } = table
+
+  // Last sample whose length is <= target
+  let low = 0
+  let high = lengths.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (lengths[mid]! <= target) low = mid
+    else high = mid - 1
   }
+  if (low >= ARC_TABLE_SAMPLES) return 1
 
-  // Calculate transition length - straight line distance between two anchor positions
-  function calculateTransitionLength(shape: BaseShape, fromAnchor: number, toAnchor: number): number {
-    // Get actual pixel positions and calculate straight line distance
-    const fromPoint = getPointOnShapePerimeter(shape, fromAnchor)
-    const toPoint = getPointOnShapePerimeter(shape, toAnchor)
-    const dx = toPoint.x - fromPoint.x
-    const dy = toPoint.y - fromPoint.y
-    return Math.sqrt(dx * dx + dy * dy)
-  }
+  const start = lengths[low]!
+  const span = lengths[low + 1]! - start
+  return (low + (span > 0 ? (target - start) / span : 0)) / ARC_TABLE_SAMPLES
+}
 
-  // Smooth ease-in-out cubic function for transitions
-  // Creates smooth acceleration at start and deceleration at end
-  function easeInOutCubic(t: number): number {
-    return t < 0.5
-      ? 4 * t * t * t
-      : 1 - Math.pow(-2 * t + 2, 3) / 2
-  }
+// Tables for curved connections, rebuilt only when the curve's geometry changes
+const connectionArcTables = new WeakMap<Connection, { signature: string; table: ArcLengthTable }>()
+
+function getConnectionArcTable(
+  connection: Connection,
+  from: { x: number; y: number },
+  control: { x: number; y: number },
+  to: { x: number; y: number }
+): ArcLengthTable {
+  const signature = `${from.x},${from.y},${control.x},${control.y},${to.x},${to.y}`
+  const cached = connectionArcTables.get(connection)
+  if (cached?.signature === signature) return cached.table
+
+  const table = buildArcLengthTable(t => getPointOnCurve(from, control, to, t))
+  connectionArcTables.set(connection, { signature, table })
+  return table
+}
 
-  // Calculate point on straight line at progress t (0-1)
-  function getPointOnStraightLine(
-    from: { x: number; y: number },
-    to: { x: number; y: number },
-    t: number
-  ): { x: number; y: number } {
-    return {
-      x: from.x + (to.x - from.x) * t,
-      y: from.y + (to.y - from.y) * t,
-    }
+// Helper to get shape center
+function getShapeCenter(shape: BaseShape): { x: number; y: number } {
+  if (shape.type === 'circle') {
+    return { x: shape.x, y: shape.y }
   }
+  const width = shape.width || 40
+  const height = shape.height || 40
+  return { x: shape.x + width / 2, y: shape.y + height / 2 }
+}
 
-  // Calculate point on quadratic bezier curve at progress t (0-1)
-  function getPointOnCurve(
-    from: { x: number; y: number },
-    control: { x: number; y: number },
-    to: { x: number; y: number },
-    t: number
-  ): { x: number; y: number } {
-    const mt = 1 - t
-    return {
-      x: mt * mt * from.x + 2 * mt * t * control.x + t * t * to.x,
-      y: mt * mt * from.y + 2 * mt * t * control.y + t * t * to.y,
-    }
+// Get point on shape perimeter at normalized position (0-1)
+function getPointOnShapePerimeter(shape: BaseShape, anchorPosition: number): { x: number; y: number } {
+  // Reuse the anchor position logic from useCanvasState
+  return getAnchorPosition(shape, { position: anchorPosition })
+}
+
+export const TRANSITION_MODES: Array<{ mode: TransitionMode; label: string }> = [
+  { mode: 'center', label: 'Through center' },
+  { mode: 'perimeter', label: 'Along edge' },
+  { mode: 'jump', label: 'Jump' },
+]
+
+// Point at t (0-1) through a transition from one anchor to another: along the
+// perimeter the shorter way round, or curving through the shape center
+// Anchor positions are spaced evenly along the perimeter, so the perimeter
+// route just moves the anchor position
+function getPointOnTransition(
+  shape: BaseShape,
+  fromAnchor: number,
+  toAnchor: number,
+  mode: TransitionMode,
+  t: number
+): { x: number; y: number } {
+  if (mode === 'perimeter') {
+    const delta = (toAnchor - fromAnchor) - Math.round(toAnchor - fromAnchor)
+    const position = fromAnchor + delta * t
+    return getPointOnShapePerimeter(shape, position - Math.floor(position))
   }
 
-  // Calculate approximate path length for consistent speed
-  function calculatePathLength(connection: Connection): number {
-    const fromShape = shapes().find(s => s.id === connection.fromShapeId)
-    const toShape = shapes().find(s => s.id === connection.toShapeId)
-    if (!fromShape || !toShape) return 0
-
-    const from = connection.fromAnchor
-      ? getAnchorPosition(fromShape, connection.fromAnchor)
-      : getShapeCenter(fromShape)
-    const to = connection.toAnchor
-      ? getAnchorPosition(toShape, connection.toAnchor)
-      : getShapeCenter(toShape)
-
-    if (connection.curveOffset === null) {
-      // Straight line - simple distance
-      const dx = to.x - from.x
-      const dy = to.y - from.y
-      return Math.sqrt(dx * dx + dy * dy)
-    } else {
-      // Curved line - approximate length by sampling points
-      const midX = (from.x + to.x) / 2
-      const midY = (from.y + to.y) / 2
-      const control = {
-        x: midX + connection.curveOffset.x,
-        y: midY + connection.curveOffset.y,
-      }
+  const fromPoint = getPointOnShapePerimeter(shape, fromAnchor)
+  const toPoint = getPointOnShapePerimeter(shape, toAnchor)
+  return getPointOnCurve(fromPoint, getShapeCenter(shape), toPoint, t)
+}
 
-      let length = 0
-      let prevPoint = from
-      const samples = 20
-      for (let i = 1; i <= samples; i++) {
-        const t = i / samples
-        const point = getPointOnCurve(from, control, to, t)
-        const dx = point.x - prevPoint.x
-        const dy = point.y - prevPoint.y
-        length += Math.sqrt(dx * dx + dy * dy)
-        prevPoint = point
-      }
-      return length
-    }
-  }
+function buildTransitionArcTable(shape: BaseShape, fromAnchor: number, toAnchor: number, mode: TransitionMode): ArcLengthTable {
+  return buildArcLengthTable(t => getPointOnTransition(shape, fromAnchor, toAnchor, mode, t))
+}
 
-  // Get point on path at progress t (0-1)
-  function getPointOnPath(connection: Connection, t: number, reversed: boolean = false): { x: number; y: number } | null {
-    const fromShape = shapes().find(s => s.id === connection.fromShapeId)
-    const toShape = shapes().find(s => s.id === connection.toShapeId)
-    if (!fromShape || !toShape) return null
+// Calculate point on straight line at progress t (0-1)
+function getPointOnStraightLine(
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  t: number
+): { x: number; y: number } {
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+  }
+}
 
-    const from = connection.fromAnchor
-      ? getAnchorPosition(fromShape, connection.fromAnchor)
-      : getShapeCenter(fromShape)
-    const to = connection.toAnchor
-      ? getAnchorPosition(toShape, connection.toAnchor)
-      : getShapeCenter(toShape)
+// Calculate point on quadratic bezier curve at progress t (0-1)
+function getPointOnCurve(
+  from: { x: number; y: number },
+  control: { x: number; y: number },
+  to: { x: number; y: number },
+  t: number
+): { x: number; y: number } {
+  const mt = 1 - t
+  return {
+    x: mt * mt * from.x + 2 * mt * t * control.x + t * t * to.x,
+    y: mt * mt * from.y + 2 * mt * t * control.y + t * t * to.y,
+  }
+}
 
-    // For reversed traversal, use (1-t) to go backwards along the same path
-    const actualT = reversed ? 1 - t : t
+// Calculate approximate path length for consistent speed
+function calculatePathLength(connection: Connection, shapes: BaseShape[]): number {
+  const fromShape = shapes.find(s => s.id === connection.fromShapeId)
+  const toShape = shapes.find(s => s.id === connection.toShapeId)
+  if (!fromShape || !toShape) return 0
+
+  const from = connection.fromAnchor
+    ? getAnchorPosition(fromShape, connection.fromAnchor)
+    : getShapeCenter(fromShape)
+  const to = connection.toAnchor
+    ? getAnchorPosition(toShape, connection.toAnchor)
+    : getShapeCenter(toShape)
+
+  if (connection.curveOffset === null) {
+    // Straight line - simple distance
+    const dx = to.x - from.x
+    const dy = to.y - from.y
+    return Math.sqrt(dx * dx + dy * dy)
+  } else {
+    // Curved line - length from the (cached) arc-length table
+    const midX = (from.x + to.x) / 2
+    const midY = (from.y + to.y) / 2
+    const control = {
+      x: midX + connection.curveOffset.x,
+      y: midY + connection.curveOffset.y,
+    }
+    return getConnectionArcTable(connection, from, control, to).length
+  }
+}
 
-    if (connection.curveOffset === null) {
-      // Straight line: use original from/to with adjusted t
-      return getPointOnStraightLine(from, to, actualT)
-    } else {
-      // Curved line: use original from/control/to with adjusted t
-      // The control point defines the curve shape - it stays the same regardless of direction
-      const midX = (from.x + to.x) / 2
-      const midY = (from.y + to.y) / 2
-      const control = {
-        x: midX + connection.curveOffset.x,
-        y: midY + connection.curveOffset.y,
-      }
-      
-      return getPointOnCurve(from, control, to, actualT)
+// Get point on path at progress t (0-1 of the path's length)
+function getPointOnPath(connection: Connection, shapes: BaseShape[], t: number, reversed: boolean = false): { x: number; y: number } | null {
+  const fromShape = shapes.find(s => s.id === connection.fromShapeId)
+  const toShape = shapes.find(s => s.id === connection.toShapeId)
+  if (!fromShape || !toShape) return null
+
+  const from = connection.fromAnchor
+    ? getAnchorPosition(fromShape, connection.fromAnchor)
+    : getShapeCenter(fromShape)
+  const to = connection.toAnchor
+    ? getAnchorPosition(toShape, connection.toAnchor)
+    : getShapeCenter(toShape)
+
+  // For reversed traversal, use (1-t) to go backwards along the same path
+  const actualT = reversed ? 1 - t : t
+
+  if (connection.curveOffset === null) {
+    // Straight line: use original from/to with adjusted t
+    return getPointOnStraightLine(from, to, actualT)
+  } else {
+    // Curved line: use original from/control/to with adjusted t
+    // The control point defines the curve shape - it stays the same regardless of direction
+    const midX = (from.x + to.x) / 2
+    const midY = (from.y + to.y) / 2
+    const control = {
+      x: midX + connection.curveOffset.x,
+      y: midY + connection.curveOffset.y,
     }
+
+    // Raw bezier t bunches up near the control point; go through arc length instead
+    const table = getConnectionArcTable(connection, from, control, to)
+    return getPointOnCurve(from, control, to, getTAtArcFraction(table, actualT))
   }
+}
 
-  // Helper to get exit anchor position for a connection segment
-  function getExitAnchor(connection: Connection, reversed: boolean): { shapeId: string; anchor: number | null } {
-    if (reversed) {
-      return {
-        shapeId: connection.fromShapeId,
-        anchor: connection.fromAnchor ? connection.fromAnchor.position : null,
-      }
-    } else {
-      return {
-        shapeId: connection.toShapeId,
-        anchor: connection.toAnchor ? connection.toAnchor.position : null,
-      }
+// Helper to get exit anchor position for a connection segment
+function getExitAnchor(connection: Connection, reversed: boolean): { shapeId: string; anchor: number | null } {
+  if (reversed) {
+    return {
+      shapeId: connection.fromShapeId,
+      anchor: connection.fromAnchor ? connection.fromAnchor.position : null,
+    }
+  } else {
+    return {
+      shapeId: connection.toShapeId,
+      anchor: connection.toAnchor ? connection.toAnchor.position : null,
     }
   }
+}
 
-  // Helper to get entry anchor position for a connection
-  function getEntryAnchor(connection: Connection, reversed: boolean): { shapeId: string; anchor: number | null } {
-    if (reversed) {
-      return {
-        shapeId: connection.toShapeId,
-        anchor: connection.toAnchor ? connection.toAnchor.position : null,
-      }
-    } else {
-      return {
-        shapeId: connection.fromShapeId,
-        anchor: connection.fromAnchor ? connection.fromAnchor.position : null,
-      }
+// Helper to get entry anchor position for a connection
+function getEntryAnchor(connection: Connection, reversed: boolean): { shapeId: string; anchor: number | null } {
+  if (reversed) {
+    return {
+      shapeId: connection.toShapeId,
+      anchor: connection.toAnchor ? connection.toAnchor.position : null,
+    }
+  } else {
+    return {
+      shapeId: connection.fromShapeId,
+      anchor: connection.fromAnchor ? connection.fromAnchor.position : null,
     }
   }
+}
 
-  // Build a circuit path from connections by linking them end-to-end
-  function buildCircuit(connectionsList: Connection[]): CircuitSegment[] {
-    if (connectionsList.length === 0) return []
-    if (connectionsList.length === 1) {
-      // Single connection - just return it
-      const connection = connectionsList[0]
-      const length = calculatePathLength(connection)
-      return [{
-        type: 'connection',
-        connection,
-        reversed: false,
-        startDistance: 0,
-        endDistance: length,
-      }]
+// Build a circuit path by walking the connections in route order
+// Consecutive connections that meet at a shape are joined by a transition around it
+export function buildCircuit(
+  connectionsList: Connection[],
+  shapes: BaseShape[],
+  circuitOrder: CircuitStep[] = [],
+  transitionMode: TransitionMode = 'center'
+): CircuitSegment[] {
+  const segments: CircuitSegment[] = []
+  let currentShapeId: string | null = null
+  let currentExitAnchor: number | null = null
+  let cumulativeDistance = 0
+
+  for (const step of resolveCircuitOrder(circuitOrder, connectionsList)) {
+    const connection = connectionsList.find(c => c.id === step.connectionId)
+    if (!connection) continue
+    const entryAnchor = getEntryAnchor(connection, step.reversed)
+
+    // Check if we need a transition segment (jump mode skips them)
+    if (
+      transitionMode !== 'jump'
+      && entryAnchor.shapeId === currentShapeId
+      && currentExitAnchor !== null
+      && entryAnchor.anchor !== null
+      && currentExitAnchor !== entryAnchor.anchor
+    ) {
+      const shape = shapes.find(s => s.id === currentShapeId)
+      if (shape) {
+        // Transition length is the length of the route the dot actually follows
+        const arcTable = buildTransitionArcTable(shape, currentExitAnchor, entryAnchor.anchor, transitionMode)
+        segments.push({
+          type: 'transition',
+          shape,
+          fromAnchor: currentExitAnchor,
+          toAnchor: entryAnchor.anchor,
+          transitionMode,
+          arcTable,
+          startDistance: cumulativeDistance,
+          endDistance: cumulativeDistance + arcTable.length,
+        })
+        cumulativeDistance += arcTable.length
+      }
     }
 
-    const segments: CircuitSegment[] = []
-    const usedConnections = new Set<string>()
-    let currentShapeId: string | null = null
-    let currentExitAnchor: number | null = null
-    let cumulativeDistance = 0
-
-    // Start with the first connection
-    const firstConnection = connectionsList[0]
-    usedConnections.add(firstConnection.id)
-    const firstLength = calculatePathLength(firstConnection)
-    const firstExit = getExitAnchor(firstConnection, false)
+    // Connections that don't continue from the current shape are jumped to
+    const length = calculatePathLength(connection, shapes)
+    const exitAnchor = getExitAnchor(connection, step.reversed)
     segments.push({
       type: 'connection',
-      connection: firstConnection,
-      reversed: false,
+      connection,
+      reversed: step.reversed,
       startDistance: cumulativeDistance,
-      endDistance: cumulativeDistance + firstLength,
+      endDistance: cumulativeDistance + length,
     })
-    cumulativeDistance += firstLength
-    currentShapeId = firstExit.shapeId
-    currentExitAnchor = firstExit.anchor
+    cumulativeDistance += length
+    currentShapeId = exitAnchor.shapeId
+    currentExitAnchor = exitAnchor.anchor
+  }
 
-    // Continue building the path by finding connections that share endpoints
-    while (usedConnections.size < connectionsList.length) {
-      let foundNext = false
+  return segments
+}
 
-      // Try to find a connection that continues from currentShapeId
-      for (const connection of connectionsList) {
-        if (usedConnections.has(connection.id)) continue
+// Segment under a distance along the circuit, and how far through it (0-1)
+function findCircuitSegment(
+  circuit: CircuitSegment[],
+  distance: number
+): { segment: CircuitSegment; index: number; progress: number } | null {
+  const totalLength = circuit[circuit.length - 1]?.endDistance || 0
+  if (totalLength === 0) return null
+
+  // Normalize distance to handle wrap-around; the full length stays the end of
+  // the circuit so open paths can be reached end to end
+  const normalizedDistance = distance === totalLength
+    ? totalLength
+    : ((distance % totalLength) + totalLength) % totalLength
+
+  // Find which segment contains this distance
+  let index = circuit.findIndex(s =>
+    normalizedDistance >= s.startDistance &&
+    normalizedDistance < s.endDistance
+  )
+  if (index === -1) index = circuit.length - 1
+  const segment = circuit[index]!
 
-        let nextConnection: Connection | null = null
-        let nextReversed = false
+  // Calculate position within that segment
+  const segmentLength = segment.endDistance - segment.startDistance
+  const segmentProgress = segmentLength > 0
+    ? (normalizedDistance - segment.startDistance) / segmentLength
+    : 0
 
-        // Check if this connection starts at current shape (forward)
-        if (connection.fromShapeId === currentShapeId) {
-          nextConnection = connection
-          nextReversed = false
-        }
-        // Check if this connection ends at current shape (reverse)
-        else if (connection.toShapeId === currentShapeId) {
-          nextConnection = connection
-          nextReversed = true
-        }
+  return { segment, index, progress: Math.max(0, Math.min(1, segmentProgress)) }
+}
 
-        if (nextConnection) {
-          usedConnections.add(nextConnection.id)
-          const entryAnchor = getEntryAnchor(nextConnection, nextReversed)
-
-          // Check if we need a transition segment
-          if (currentExitAnchor !== null && entryAnchor.anchor !== null && currentExitAnchor !== entryAnchor.anchor) {
-            // Need a transition along the shape perimeter
-            const shape = shapes().find(s => s.id === currentShapeId!)
-            if (shape) {
-              // Store anchors in original order - interpolation will choose shorter path
-              const fromAnchor = currentExitAnchor
-              const toAnchor = entryAnchor.anchor
-              
-              // Calculate transition length (always uses shorter path)
-              const transitionLength = calculateTransitionLength(shape, fromAnchor!, toAnchor!)
-              
-              segments.push({
-                type: 'transition',
-                shape,
-                fromAnchor: fromAnchor!,
-                toAnchor: toAnchor!,
-                startDistance: cumulativeDistance,
-                endDistance: cumulativeDistance + transitionLength,
-              })
-              cumulativeDistance += transitionLength
-            }
-          }
-
-          // Add the connection segment
-          const length = calculatePathLength(nextConnection)
-          const exitAnchor = getExitAnchor(nextConnection, nextReversed)
-          segments.push({
-            type: 'connection',
-            connection: nextConnection,
-            reversed: nextReversed,
-            startDistance: cumulativeDistance,
-            endDistance: cumulativeDistance + length,
-          })
-          cumulativeDistance += length
-          currentShapeId = exitAnchor.shapeId
-          currentExitAnchor = exitAnchor.anchor
-          foundNext = true
-          break
-        }
-      }
+// Get point on circuit at a specific distance
+export function getPointOnCircuit(
+  circuit: CircuitSegment[],
+  shapes: BaseShape[],
+  distance: number
+): { x: number; y: number; connectionId: string; progress: number } | null {
+  const found = findCircuitSegment(circuit, distance)
+  if (!found) return null
+  const { segment, index: segmentIndex, progress: clampedProgress } = found
+
+  let point: { x: number; y: number } | null = null
+  let connectionId: string | null = null
+
+  if (segment.type === 'connection' && segment.connection) {
+    point = getPointOnPath(segment.connection, shapes, clampedProgress, segment.reversed || false)
+    connectionId = segment.connection.id
+  } else if (segment.type === 'transition' && segment.shape && segment.fromAnchor !== undefined && segment.toAnchor !== undefined) {
+    const prevSegment = segmentIndex > 0 ? circuit[segmentIndex - 1] : null
+    connectionId = prevSegment?.type === 'connection' && prevSegment.connection ? prevSegment.connection.id : 'transition'
+    
+    const t = segment.arcTable ? getTAtArcFraction(segment.arcTable, clampedProgress) : clampedProgress
+    point = getPointOnTransition(segment.shape, segment.fromAnchor, segment.toAnchor, segment.transitionMode ?? 'center', t)
+  }
 
-      // If we can't find a next connection, try to start a new path from an unused connection
-      if (!foundNext) {
-        for (const connection of connectionsList) {
-          if (usedConnections.has(connection.id)) continue
-
-          // Start a new path segment (doesn't connect, but we'll animate through it)
-          usedConnections.add(connection.id)
-          const length = calculatePathLength(connection)
-          const exitAnchor = getExitAnchor(connection, false)
-          segments.push({
-            type: 'connection',
-            connection,
-            reversed: false,
-            startDistance: cumulativeDistance,
-            endDistance: cumulativeDistance + length,
-          })
-          cumulativeDistance += length
-          currentShapeId = exitAnchor.shapeId
-          currentExitAnchor = exitAnchor.anchor
-          foundNext = true
-          break
-        }
-      }
+  if (point && connectionId) {
+    return { x: point.x, y: point.y, connectionId, progress: clampedProgress }
+  }
 
-      // If still nothing found, break (disconnected segments)
-      if (!foundNext) break
-    }
+  return null
+}
 
-    return segments
+export const SNAKE_CAPS: Array<{ cap: SnakeCap; label: string }> = [
+  { cap: 'round', label: 'Round' },
+  { cap: 'butt', label: 'Flat' },
+]
+
+export const SNAKE_COLOR_MODES: Array<{ mode: SnakeColorMode; label: string }> = [
+  { mode: 'connection', label: 'Lines' },
+  { mode: 'gradient', label: 'Gradient' },
+]
+
+const DEFAULT_SNAKE_COLOR = '#d946ef'
+// Points sampled along the snake body
+const SNAKE_SAMPLES = 30
+// Points around each round cap
+const SNAKE_CAP_SEGMENTS = 8
+
+// Solid color of the line under a distance along the circuit, sampled the way
+// the editor paints gradient strokes (linear runs from -> to, radial spreads
+// out from the middle of the line); transitions keep the color they came in with
+function getColorOnCircuit(circuit: CircuitSegment[], distance: number): string {
+  const found = findCircuitSegment(circuit, distance)
+  if (!found) return DEFAULT_SNAKE_COLOR
+
+  let { segment, progress } = found
+  if (segment.type === 'transition') {
+    const previous = circuit[found.index - 1]
+    ;[segment, progress] = previous?.type === 'connection' ? [previous, 1] : [circuit[found.index + 1] ?? segment, 0]
   }
+  const stroke = segment.connection?.stroke
+  if (!stroke) return DEFAULT_SNAKE_COLOR
 
-  // Get point on circuit at a specific distance
-  function getPointOnCircuit(circuit: CircuitSegment[], distance: number): { x: number; y: number; connectionId: string } | null {
-    const totalLength = circuit[circuit.length - 1]?.endDistance || 0
-    if (totalLength === 0) return null
-
-    // Normalize distance to handle wrap-around
-    const normalizedDistance = ((distance % totalLength) + totalLength) % totalLength
-
-    // Find which segment contains this distance
-    const segment = circuit.find(s => 
-      normalizedDistance >= s.startDistance && 
-      normalizedDistance < s.endDistance
-    ) || circuit[circuit.length - 1]
-
-    // Calculate position within that segment
-    const segmentLength = segment.endDistance - segment.startDistance
-    const segmentProgress = segmentLength > 0
-      ? (normalizedDistance - segment.startDistance) / segmentLength
-      : 0
-
-    const clampedProgress = Math.max(0, Math.min(1, segmentProgress))
-
-    let point: { x: number; y: number } | null = null
-    let connectionId: string | null = null
-
-    if (segment.type === 'connection' && segment.connection) {
-      point = getPointOnPath(segment.connection, clampedProgress, segment.reversed || false)
-      connectionId = segment.connection.id
-    } else if (segment.type === 'transition' && segment.shape && segment.fromAnchor !== undefined && segment.toAnchor !== undefined) {
-      const segmentIndex = circuit.indexOf(segment)
-      const prevSegment = segmentIndex > 0 ? circuit[segmentIndex - 1] : null
-      connectionId = prevSegment?.type === 'connection' && prevSegment.connection ? prevSegment.connection.id : 'transition'
-      
-      const easedProgress = easeInOutCubic(clampedProgress)
-      const fromPoint = getPointOnShapePerimeter(segment.shape, segment.fromAnchor)
-      const toPoint = getPointOnShapePerimeter(segment.shape, segment.toAnchor)
-      const center = getShapeCenter(segment.shape)
-      point = getPointOnCurve(fromPoint, center, toPoint, easedProgress)
-    }
+  const along = segment.reversed ? 1 - progress : progress
+  return getColorAt(stroke, typeof stroke !== 'string' && stroke.type === 'radial' ? Math.abs(2 * along - 1) : along)
+}
+
+/**
+ * Width and opacity of the snake body at a point along it (0 = tail, 1 = head)
+ */
+export function getSnakeBodyStyle(config: AnimationConfig, along: number): { width: number; opacity: number } {
+  const behind = 1 - Math.max(0, Math.min(1, along))
+  return {
+    width: (config.snakeWidth || 5) * (1 - Math.max(0, Math.min(1, config.snakeTaper || 0)) * behind),
+    opacity: 1 - Math.max(0, Math.min(1, config.snakeFade || 0)) * behind,
+  }
+}
+
+type SnakeSample = { x: number; y: number; width: number; opacity: number; color: string }
 
-    if (point && connectionId) {
-      return { x: point.x, y: point.y, connectionId }
+// Outline of the body as pieces of equal color and opacity, tail first
+function outlineSnake(samples: SnakeSample[], cap: SnakeCap): SnakePiece[] {
+  const last = samples.length - 1
+
+  // Unit normal at each sample, across the direction of travel through it;
+  // samples bunched onto one point borrow their neighbour's
+  const normals: Array<{ x: number; y: number } | null> = samples.map((_, i) => {
+    const before = samples[Math.max(0, i - 1)]!
+    const after = samples[Math.min(last, i + 1)]!
+    const length = Math.hypot(after.x - before.x, after.y - before.y)
+    return length > 1e-6 ? { x: -(after.y - before.y) / length, y: (after.x - before.x) / length } : null
+  })
+  for (let i = 1; i <= last; i++) normals[i] ??= normals[i - 1]!
+  for (let i = last - 1; i >= 0; i--) normals[i] ??= normals[i + 1]!
+  const normalAt = (i: number) => normals[i] ?? { x: 0, y: 1 }
+
+  const side = (i: number, sign: 1 | -1) => {
+    const p = samples[i]!
+    const n = normalAt(i)
+    return [p.x + sign * n.x * p.width / 2, p.y + sign * n.y * p.width / 2]
+  }
+  // Half-disc around an end, from its left side round to its right (facing = 1 at
+  // the head) or from right to left (facing = -1 at the tail)
+  const capPoints = (i: number, facing: 1 | -1) => {
+    const p = samples[i]!
+    const n = normalAt(i)
+    const points: number[] = []
+    for (let k = 1; k < SNAKE_CAP_SEGMENTS; k++) {
+      const angle = (Math.PI * k) / SNAKE_CAP_SEGMENTS
+      const across = facing * Math.cos(angle) * p.width / 2
+      const along = facing * Math.sin(angle) * p.width / 2
+      points.push(p.x + n.x * across + n.y * along, p.y + n.y * across - n.x * along)
     }
+    return points
+  }
 
-    return null
+  // Each stretch between two samples takes the style of its head-side sample
+  const pieces: SnakePiece[] = []
+  let start = 0
+  for (let end = 1; end <= last; end++) {
+    const { color, opacity } = samples[end]!
+    const next = samples[end + 1]
+    if (next && next.color === color && next.opacity === opacity) continue
+
+    const outline: number[] = []
+    for (let i = start; i <= end; i++) outline.push(...side(i, 1))
+    if (end === last && cap === 'round') outline.push(...capPoints(end, 1))
+    for (let i = end; i >= start; i--) outline.push(...side(i, -1))
+    if (start === 0 && cap === 'round') outline.push(...capPoints(0, -1))
+    pieces.push({ outline, color, opacity })
+    start = end
   }
+  return pieces
+}
 
-  // Generate snake segment points between tail and head distances
-  function generateSnakeSegment(
-    circuit: CircuitSegment[],
-    tailDistance: number,
-    headDistance: number,
-    connectionsList: Connection[]
-  ): SnakeSegment | null {
-    const totalLength = circuit[circuit.length - 1]?.endDistance || 0
-    if (totalLength === 0) return null
+// Generate the snake body from the tail to the head distance
+// The head may be behind the tail when the snake runs backward; distances past
+// either end of the circuit wrap around it
+function generateSnakeSegment(
+  circuit: CircuitSegment[],
+  shapes: BaseShape[],
+  tailDistance: number,
+  headDistance: number,
+  config: AnimationConfig
+): SnakeSegment | null {
+  const samples: SnakeSample[] = []
+  for (let i = 0; i <= SNAKE_SAMPLES; i++) {
+    const along = i / SNAKE_SAMPLES
+    const distance = tailDistance + (headDistance - tailDistance) * along
+    const point = getPointOnCircuit(circuit, shapes, distance)
+    if (!point) continue
+    samples.push({
+      x: point.x,
+      y: point.y,
+      ...getSnakeBodyStyle(config, along),
+      // Either the color of each connection under the body or one gradient from tail to head
+      color: config.snakeColorMode === 'gradient'
+        ? getColorAt(config.snakeGradient, along)
+        : getColorOnCircuit(circuit, distance),
+    })
+  }
 
-    const snakeLength = config().snakeLength
-    const snakeDistance = snakeLength * totalLength
+  if (samples.length < 2) return null // Need at least 2 points
 
-    // Normalize distances
-    const normalizedTail = ((tailDistance % totalLength) + totalLength) % totalLength
-    const normalizedHead = ((headDistance % totalLength) + totalLength) % totalLength
+  return {
+    points: samples.flatMap(p => [p.x, p.y]),
+    pieces: outlineSnake(samples, config.snakeCap || 'round'),
+  }
+}
 
-    // Sample points along the snake path
-    const samples = 30 // Number of points to sample
-    const points: number[] = []
-    let lastConnectionId: string | null = null
-
-    // Check if snake wraps around
-    const wrapsAround = normalizedHead < normalizedTail
-
-    if (wrapsAround) {
-      // Snake wraps around - need two segments
-      // First segment: from tail to end of circuit
-      for (let i = 0; i <= samples / 2; i++) {
-        const t = i / (samples / 2)
-        const distance = normalizedTail + (totalLength - normalizedTail) * t
-        const point = getPointOnCircuit(circuit, distance)
-        if (point) {
-          points.push(point.x, point.y)
-          lastConnectionId = point.connectionId
-        }
-      }
-      // Second segment: from start to head
-      for (let i = 0; i <= samples / 2; i++) {
-        const t = i / (samples / 2)
-        const distance = normalizedHead * t
-        const point = getPointOnCircuit(circuit, distance)
-        if (point) {
-          points.push(point.x, point.y)
-          lastConnectionId = point.connectionId
-        }
-      }
-    } else {
-      // Normal case: single segment from tail to head
-      for (let i = 0; i <= samples; i++) {
-        const t = i / samples
-        const distance = normalizedTail + (normalizedHead - normalizedTail) * t
-        const point = getPointOnCircuit(circuit, distance)
-        if (point) {
-          points.push(point.x, point.y)
-          lastConnectionId = point.connectionId
-        }
-      }
-    }
+export const PLAYBACK_DIRECTIONS: Array<{ direction: PlaybackDirection; label: string }> = [
+  { direction: 'forward', label: 'Forward' },
+  { direction: 'reverse', label: 'Reverse' },
+  { direction: 'alternate', label: 'Ping-pong' },
+  { direction: 'alternate-pause', label: 'Ping-pong + pause' },
+]
+
+export const PROGRESS_MODES: Array<{ mode: ProgressMode; label: string }> = [
+  { mode: 'loop', label: 'Loop' },
+  { mode: 'determinate', label: 'Progress' },
+]
+
+// Share of each ping-pong leg spent resting at the end it reached
+const ALTERNATE_PAUSE = 0.2
+
+function isAlternate(direction: PlaybackDirection | undefined): boolean {
+  return direction === 'alternate' || direction === 'alternate-pause'
+}
+
+// Share of each ping-pong leg spent moving
+function getLegMotion(direction: PlaybackDirection | undefined): number {
+  return direction === 'alternate-pause' ? 1 - ALTERNATE_PAUSE : 1
+}
+
+/**
+ * Duration in ms of one loop around a circuit of the given length
+ * Longer circuits take proportionally longer so the dot speed stays the same,
+ * unless the design fixes the loop duration
+ * A ping-pong loop goes there and back (plus any pauses) at that same speed
+ */
+export function getLoopDuration(totalLength: number, config: AnimationConfig): number {
+  if (config.loopDuration > 0) return config.loopDuration
+  const baseDuration = 2000 // 2 seconds base
+  const avgPathLength = 200
+  const speedMultiplier = config.speed || 1
+  const oneWay = (baseDuration * (totalLength / avgPathLength)) / speedMultiplier
+  return isAlternate(config.direction) ? (oneWay * 2) / getLegMotion(config.direction) : oneWay
+}
+
+/**
+ * Wrap a loop phase into 0-1
+ * Phase 1 is kept as the end of the loop so open paths can be sampled end to end
+ */
+function wrapPhase(phase: number): number {
+  return phase >= 0 && phase <= 1 ? phase : ((phase % 1) + 1) % 1
+}
+
+/**
+ * Where in the circuit (0-1, before easing) a loop phase lands for a direction,
+ * and whether the dot is heading back toward the start
+ * Ping-pong loops spend the first half going out and the second coming back
+ */
+function getDirectedPhase(phase: number, direction: PlaybackDirection | undefined): { phase: number; backward: boolean } {
+  if (direction === 'reverse') return { phase: 1 - phase, backward: true }
+  if (!isAlternate(direction)) return { phase, backward: false }
+
+  const backward = phase > 0.5
+  const leg = backward ? phase * 2 - 1 : phase * 2
+  const moved = Math.min(1, leg / getLegMotion(direction))
+  return { phase: backward ? 1 - moved : moved, backward }
+}
+
+/**
+ * Time (ms) the circuit has run forward, net of time spent running backward
+ * Drives the constellation rotation so it turns with the dot: reverse spins the
+ * other way, ping-pong swings back and forth and stops during pauses
+ */
+export function getDirectedTime(time: number, duration: number, direction: PlaybackDirection | undefined): number {
+  if (direction === 'reverse') return -time
+  if (!isAlternate(direction) || duration <= 0) return time
+
+  const half = duration / 2
+  const moving = half * getLegMotion(direction)
+  const within = ((time % duration) + duration) % duration
+  return within < half
+    ? Math.min(within, moving)
+    : moving - Math.min(within - half, moving)
+}
+
+// Degrees per second for a constant spin; reverse playback spins the other way
+export function getSpinSpeed(config: AnimationConfig): number {
+  return config.direction === 'reverse' ? -config.rotationSpeed : config.rotationSpeed
+}
+
+/**
+ * Rotation over one loop for exporters, as angles (degrees from the start
+ * angle) at loop phases with linear motion in between
+ * Null when the rotation simply spins at a constant speed
+ */
+export function getRotationKeyframes(config: AnimationConfig, duration: number): Array<{ phase: number; angle: number }> | null {
+  if (config.rotationSpeed === 0 || !isAlternate(config.direction) || duration <= 0) return null
+
+  const motion = getLegMotion(config.direction) / 2
+  const swing = (config.rotationSpeed * duration * motion) / 1000
+  const keyframes = [{ phase: 0, angle: 0 }, { phase: motion, angle: swing }]
+  if (motion < 0.5) keyframes.push({ phase: 0.5, angle: swing })
+  keyframes.push({ phase: 0.5 + motion, angle: 0 })
+  if (motion < 0.5) keyframes.push({ phase: 1, angle: 0 })
+  return keyframes
+}
 
-    if (points.length < 4) return null // Need at least 2 points
+// Ranges the toolbar offers for the dot trail; loaded documents are kept to them
+// since every frame samples each dot of the trail
+export const MAX_DOT_COUNT = 8
+export const MIN_DOT_SPACING = 0.02
+export const MAX_DOT_FALLOFF = 0.9
 
-    // Get connection for stroke color
-    const connection = lastConnectionId ? connectionsList.find(c => c.id === lastConnectionId) : null
-    const stroke: ColorValue = connection?.stroke || '#d946ef'
+export interface DotTrailEntry {
+  offset: number  // Fraction of a loop this dot runs behind the lead dot
+  scale: number  // Size and opacity relative to the lead dot
+}
 
+/**
+ * Dots drawn in dot mode, lead dot first
+ * Exporters use this to phase-shift copies of the single sampled loop
+ */
+export function getDotTrail(config: AnimationConfig): DotTrailEntry[] {
+  const dotCount = Math.min(MAX_DOT_COUNT, Math.max(1, Math.round(config.dotCount || 1)))
+  return Array.from({ length: dotCount }, (_, i) => ({
+    offset: i * (config.dotSpacing || 0),
+    scale: dotCount > 1 ? 1 - Math.min(1, Math.max(0, config.dotFalloff)) * (i / (dotCount - 1)) : 1,
+  }))
+}
+
+// Bands a styled snake is split into when exported
+const SNAKE_EXPORT_BANDS = 8
+
+export interface SnakeBand {
+  start: number  // 0-1 along the snake from the tail
+  end: number
+  width: number
+  opacity: number
+  color: string | null  // Gradient color, or null to follow the connection under the band
+}
+
+/**
+ * Snake body in a few stretches of constant width, opacity and color, tail first
+ * Exporters draw each band as its own moving dash since SVG, CSS and Lottie
+ * strokes can't vary along their length; a plain snake is a single band
+ */
+export function getSnakeBands(config: AnimationConfig): SnakeBand[] {
+  const isGradient = config.snakeColorMode === 'gradient'
+  const count = isGradient || config.snakeTaper > 0 || config.snakeFade > 0 ? SNAKE_EXPORT_BANDS : 1
+  return Array.from({ length: count }, (_, i) => {
+    const middle = count > 1 ? (i + 0.5) / count : 1
     return {
-      points,
-      stroke,
+      start: i / count,
+      end: (i + 1) / count,
+      ...getSnakeBodyStyle(config, middle),
+      color: isGradient ? getColorAt(config.snakeGradient, middle) : null,
     }
-  }
+  })
+}
 
-  // Animation loop
-  function animate() {
-    if (!isPlaying.value) return
+// Most laps a circuit can run per loop (the toolbar's range; loaded documents are kept to it)
+export const MAX_SUB_CIRCUIT_LAPS = 4
+
+/**
+ * Timing of the circuit for one group of connected shapes: the settings of its
+ * earliest drawn connection that has any, so two groups joined by a new line
+ * keep the first group's timing
+ */
+export function getSubCircuitConfig(config: AnimationConfig, group: Connection[]): SubCircuitConfig {
+  for (const connection of group) {
+    const settings = config.subCircuits?.find(s => s.connectionId === connection.id)
+    if (settings) return settings
+  }
+  return createDefaultSubCircuitConfig(group[0]?.id ?? '')
+}
 
-    const now = performance.now()
-    if (startTime === null) {
-      startTime = now
+/**
+ * One circuit per group of connected shapes, each walked in its own direction
+ */
+export function buildSubCircuits(
+  connections: Connection[],
+  shapes: BaseShape[],
+  config: AnimationConfig,
+  circuitOrder: CircuitStep[] = []
+): Array<{ circuit: CircuitSegment[]; settings: SubCircuitConfig }> {
+  return getConnectionGroups(connections).map((group) => {
+    const settings = getSubCircuitConfig(config, group)
+    const order = resolveCircuitOrder(circuitOrder, group)
+    return {
+      circuit: buildCircuit(group, shapes, settings.reversed ? reverseCircuitOrder(order) : order, config.transitionMode),
+      settings,
     }
+  })
+}
 
-    const connectionsList = connections()
-    if (connectionsList.length === 0) {
-      animationDots.value = []
-      snakeSegment.value = null
-      animationFrameId = requestAnimationFrame(animate)
-      return
-    }
+/**
+ * Stretch of the circuit where the dot is at a shape: a transition across it,
+ * or the point where one connection hands over to the next
+ */
+interface ShapeVisit {
+  shapeId: string
+  enter: number  // Circuit distance where the dot reaches the shape
+  leave: number  // Circuit distance where it has left
+}
 
-    // Build circuit path
-    const circuit = buildCircuit(connectionsList)
-    if (circuit.length === 0) {
-      animationDots.value = []
-      snakeSegment.value = null
-      animationFrameId = requestAnimationFrame(animate)
+function getShapeVisits(circuit: CircuitSegment[]): ShapeVisit[] {
+  const visits: ShapeVisit[] = []
+  circuit.forEach((segment, index) => {
+    if (segment.type === 'transition' && segment.shape) {
+      visits.push({ shapeId: segment.shape.id, enter: segment.startDistance, leave: segment.endDistance })
       return
     }
-
-    // Calculate total circuit length
-    const totalLength = circuit[circuit.length - 1]?.endDistance || 0
-    if (totalLength === 0) {
-      animationDots.value = []
-      snakeSegment.value = null
-      animationFrameId = requestAnimationFrame(animate)
-      return
+    if (!segment.connection) return
+
+    // The start of the route and shapes the dot jumps to aren't reached by the
+    // previous segment; every other hand-over is the previous segment's exit
+    const entry = getEntryAnchor(segment.connection, segment.reversed || false)
+    const previous = circuit[index - 1]
+    const previousExit = previous?.type === 'connection' && previous.connection
+      ? getExitAnchor(previous.connection, previous.reversed || false).shapeId
+      : null
+    if (!previous || (previous.type === 'connection' && previousExit !== entry.shapeId)) {
+      visits.push({ shapeId: entry.shapeId, enter: segment.startDistance, leave: segment.startDistance })
+    }
+    if (circuit[index + 1]?.type !== 'transition') {
+      const exit = getExitAnchor(segment.connection, segment.reversed || false)
+      visits.push({ shapeId: exit.shapeId, enter: segment.endDistance, leave: segment.endDistance })
     }
+  })
+  return visits
+}
 
-    // Calculate duration based on total path length
-    const baseDuration = 2000 // 2 seconds base
-    const avgPathLength = 200
-    const speedMultiplier = config().speed || 1
-    const duration = (baseDuration * (totalLength / avgPathLength)) / speedMultiplier
+// Distance the dot moved between two sampled circuit distances; moving over
+// half the circuit between samples means it wrapped around the end
+function getCircuitStep(from: number, to: number, totalLength: number): number {
+  const delta = to - from
+  return Math.abs(delta) > totalLength / 2 ? delta - Math.sign(delta) * totalLength : delta
+}
+
+// Where (0-1) along a step of the dot it passed a point, or null if it didn't
+function getCrossingFraction(from: number, delta: number, point: number, totalLength: number): number | null {
+  if (delta === 0) return null
+  const ahead = delta > 0 ? point - from : from - point
+  const offset = ((ahead % totalLength) + totalLength) % totalLength
+  return offset > 0 && offset <= Math.abs(delta) ? offset / Math.abs(delta) : null
+}
 
-    // Single progress through entire circuit
-    const elapsed = now - startTime!
-    const progress = (elapsed % duration) / duration
-    const distanceAlongCircuit = progress * totalLength
+// Steps per lap when looking back for the moment the dot passed each shape
+const SHAPE_EFFECT_STEPS_PER_LAP = 24
+const MAX_SHAPE_EFFECT_STEPS = 96
+
+/**
+ * Effect intensity of each shape on a circuit at a moment: full strength when
+ * the dot triggers it, eased to nothing over the effect duration
+ * Steps back through the last duration's worth of motion to find the latest
+ * crossing, so easing, direction and pauses all carry through
+ */
+function getShapeEffectIntensities(
+  circuit: CircuitSegment[],
+  effects: ShapeEffectConfig | undefined,
+  time: number,
+  lapDuration: number,
+  distanceAt: (time: number) => number
+): Map<string, number> {
+  const intensities = new Map<string, number>()
+  const totalLength = circuit[circuit.length - 1]?.endDistance || 0
+  if (!effects || effects.types.length === 0 || effects.duration <= 0 || lapDuration <= 0 || totalLength === 0) {
+    return intensities
+  }
 
-    const animationMode = config().animationMode || 'dot'
+  const visits = getShapeVisits(circuit)
+  const steps = Math.min(MAX_SHAPE_EFFECT_STEPS, Math.max(1, Math.ceil((effects.duration / lapDuration) * SHAPE_EFFECT_STEPS_PER_LAP)))
+  const step = effects.duration / steps
+  const elapsed = new Map<number, number>()
+
+  let later = distanceAt(time)
+  for (let k = 1; k <= steps && elapsed.size < visits.length; k++) {
+    const earlier = distanceAt(time - k * step)
+    const delta = getCircuitStep(earlier, later, totalLength)
+    visits.forEach((visit, index) => {
+      if (elapsed.has(index)) return
+      // Running backward, the dot reaches a shape at its leave end
+      const point = (effects.trigger === 'enter') === (delta >= 0) ? visit.enter : visit.leave
+      const fraction = getCrossingFraction(earlier, delta, point, totalLength)
+      if (fraction !== null) elapsed.set(index, (k - fraction) * step)
+    })
+    later = earlier
+  }
+
+  const ease = createEasingFunction(effects.easing)
+  for (const [index, ms] of elapsed) {
+    const { shapeId } = visits[index]!
+    intensities.set(shapeId, Math.max(intensities.get(shapeId) ?? -Infinity, 1 - ease(ms / effects.duration)))
+  }
+  return intensities
+}
+
+/**
+ * A single rendered moment of the animation
+ */
+export interface AnimationFrame {
+  time: number  // ms since playback started
+  phase: number  // 0-1 position within the loop
+  progress: number  // Eased phase: how far around the circuit the lead dot/snake head is
+  duration: number  // ms per loop (0 when there is nothing to animate)
+  dots: AnimationDot[]
+  snakes: SnakeSegment[]  // One per circuit in snake mode
+  rotation: number  // Constellation rotation in degrees since playback started
+  shapeEffects: Record<string, number>  // Effect intensity per shape the dot recently passed (1 = just triggered)
+  // The scene at this moment, with the timeline's keyframes applied
+  shapes: BaseShape[]
+  connections: Connection[]
+}
+
+// Either an absolute time in ms or a normalized loop phase (0-1, wrapped outside that range)
+export type AnimationTime = { time: number } | { phase: number }
+
+/**
+ * Compute the animation state at a given moment without touching any timers
+ * This is the single source of truth for the live player, exporters and tests
+ * Separate groups of connected shapes run side by side; the longest one sets
+ * the loop duration and the others complete their speed ratio of laps in it
+ */
+export function sampleAnimation(
+  shapes: BaseShape[],
+  connections: Connection[],
+  config: AnimationConfig,
+  at: AnimationTime,
+  circuitOrder: CircuitStep[] = []
+): AnimationFrame {
+  const subCircuits = buildSubCircuits(connections, shapes, config, circuitOrder)
+  const longestLength = Math.max(0, ...subCircuits.map(({ circuit }) => circuit[circuit.length - 1]?.endDistance || 0))
+  const duration = longestLength > 0 ? getLoopDuration(longestLength, config) : 0
+
+  let time: number
+  let phase: number
+  if ('phase' in at) {
+    phase = wrapPhase(at.phase)
+    time = phase * duration
+  } else {
+    time = at.time
+    phase = duration > 0 ? (((time % duration) + duration) % duration) / duration : 0
+  }
+
+  // Direction folds loop time into a position along the circuit, then easing
+  // shapes the motion (ping-pong eases each leg)
+  const ease = createEasingFunction(config.easing)
+  const progressAt = (loopPhase: number) => wrapPhase(ease(getDirectedPhase(wrapPhase(loopPhase), config.direction).phase))
+  const progress = progressAt(phase)
+  const rotation = (config.rotationSpeed * getDirectedTime(time, duration, config.direction)) / 1000
+
+  // Keyframed shapes and lines carry the route along with them; the loop keeps
+  // the duration of the design as drawn so time doesn't stretch as lines change
+  const scene = applyTimeline(shapes, connections, config.timeline, phase)
+  const sceneCircuits = scene.shapes === shapes && scene.connections === connections
+    ? subCircuits
+    : buildSubCircuits(scene.connections, scene.shapes, config, circuitOrder)
+
+  const frame: AnimationFrame = {
+    time,
+    phase,
+    progress,
+    duration,
+    dots: [],
+    snakes: [],
+    rotation,
+    shapeEffects: {},
+    shapes: scene.shapes,
+    connections: scene.connections,
+  }
+  const animationMode = config.animationMode || 'dot'
+
+  // A progress value fills every circuit from its start at once, ignoring time
+  // and circuit timing; reverse playback fills from the other end
+  if (config.progressMode === 'determinate') {
+    frame.progress = Math.max(0, Math.min(1, config.progress))
+    for (const { circuit } of sceneCircuits) {
+      const totalLength = circuit[circuit.length - 1]?.endDistance || 0
+      if (totalLength === 0) continue
+      const fromEnd = config.direction === 'reverse'
+      const start = fromEnd ? totalLength : 0
+      const head = fromEnd ? (1 - frame.progress) * totalLength : frame.progress * totalLength
+
+      if (animationMode === 'snake') {
+        const snake = generateSnakeSegment(circuit, scene.shapes, start, head, config)
+        if (snake) frame.snakes.push(snake)
+        continue
+      }
+      // Trailing dots stay behind the lead dot without running past the start
+      for (const dot of getDotTrail(config)) {
+        const distance = head + (fromEnd ? 1 : -1) * dot.offset * totalLength
+        if (distance < 0 || distance > totalLength) continue
+        const point = getPointOnCircuit(circuit, scene.shapes, distance)
+        if (!point) continue
+        frame.dots.push({
+          connectionId: point.connectionId,
+          x: point.x,
+          y: point.y,
+          progress: point.progress,
+          size: config.dotSize * dot.scale,
+          opacity: dot.scale,
+        })
+      }
+    }
+    return frame
+  }
+
+  for (const { circuit, settings } of sceneCircuits) {
+    const totalLength = circuit[circuit.length - 1]?.endDistance || 0
+    if (totalLength === 0) continue
+    // Position within this circuit's own lap (phase 1 stays the end of the lap)
+    const lapPhase = phase * settings.speedRatio + settings.phaseOffset
 
     if (animationMode === 'snake') {
-      // Snake mode: calculate snake segment
-      const snakeLength = config().snakeLength || 0.3
-      const snakeDistance = snakeLength * totalLength
-      const tailDistance = distanceAlongCircuit - snakeDistance
-      const headDistance = distanceAlongCircuit
-
-      const segment = generateSnakeSegment(circuit, tailDistance, headDistance, connectionsList)
-      snakeSegment.value = segment
-      animationDots.value = [] // Clear dots in snake mode
-    } else {
-      // Dot mode: calculate dot position
-      snakeSegment.value = null // Clear snake in dot mode
-
-      // Find which segment contains this distance
-      const segment = circuit.find(s => 
-        distanceAlongCircuit >= s.startDistance && 
-        distanceAlongCircuit < s.endDistance
-      ) || circuit[circuit.length - 1] // Fallback to last segment if at the end
-
-      // Calculate position within that segment
-      const segmentLength = segment.endDistance - segment.startDistance
-      const segmentProgress = segmentLength > 0
-        ? (distanceAlongCircuit - segment.startDistance) / segmentLength
-        : 0
-
-      // Clamp segmentProgress to [0, 1] to handle edge cases
-      const clampedProgress = Math.max(0, Math.min(1, segmentProgress))
-
-      // Get point on the segment based on type
-      let point: { x: number; y: number } | null = null
-      let connectionId: string | null = null
-
-      if (segment.type === 'connection' && segment.connection) {
-        // Connection segment - use existing path calculation
-        point = getPointOnPath(segment.connection, clampedProgress, segment.reversed || false)
-        connectionId = segment.connection.id
-      } else if (segment.type === 'transition' && segment.shape && segment.fromAnchor !== undefined && segment.toAnchor !== undefined) {
-        // Transition segment - smooth curved path through the shape with easing
-        // Find the previous connection segment to get its ID
-        const segmentIndex = circuit.indexOf(segment)
-        const prevSegment = segmentIndex > 0 ? circuit[segmentIndex - 1] : null
-        connectionId = prevSegment?.type === 'connection' && prevSegment.connection ? prevSegment.connection.id : 'transition'
-        
-        // Apply easing to create smooth acceleration/deceleration
-        const easedProgress = easeInOutCubic(clampedProgress)
-        
-        // Get the actual pixel positions for from and to anchors
-        const fromPoint = getPointOnShapePerimeter(segment.shape, segment.fromAnchor)
-        const toPoint = getPointOnShapePerimeter(segment.shape, segment.toAnchor)
-        
-        // Use quadratic bezier curve through shape center for natural arc
-        const center = getShapeCenter(segment.shape)
-        point = getPointOnCurve(fromPoint, center, toPoint, easedProgress)
+      // Snake mode: the head leads and the body trails behind it by snakeLength
+      // of the circuit, on whichever side the head is moving away from
+      const headDistance = progressAt(lapPhase) * totalLength
+      const snakeDistance = (config.snakeLength || 0.3) * totalLength
+      const { backward } = getDirectedPhase(wrapPhase(lapPhase), config.direction)
+      let [tail, head] = backward
+        ? [headDistance + snakeDistance, headDistance]
+        : [headDistance - snakeDistance, headDistance]
+
+      // Right after turning, a ping-pong snake is still partly on the way in, so
+      // it bunches up at the end it turned at instead of wrapping past it
+      if (isAlternate(config.direction)) {
+        const travelled = backward ? totalLength - headDistance : headDistance
+        if (travelled < snakeDistance) {
+          const reach = Math.max(travelled, snakeDistance - travelled)
+          ;[tail, head] = backward ? [totalLength, totalLength - reach] : [0, reach]
+        }
       }
-      
-      const newDots: AnimationDot[] = []
-      if (point && connectionId) {
-        newDots.push({
-          connectionId,
+
+      const snake = generateSnakeSegment(circuit, scene.shapes, tail, head, config)
+      if (snake) frame.snakes.push(snake)
+    } else {
+      // Trailing dots run the lead dot's eased motion later in time
+      for (const dot of getDotTrail(config)) {
+        const point = getPointOnCircuit(circuit, scene.shapes, progressAt(lapPhase - dot.offset) * totalLength)
+        if (!point) continue
+        frame.dots.push({
+          connectionId: point.connectionId,
           x: point.x,
           y: point.y,
-          progress: clampedProgress,
+          progress: point.progress,
+          size: config.dotSize * dot.scale,
+          opacity: dot.scale,
         })
       }
+    }
+
+    const lapDuration = duration / settings.speedRatio
+    const distanceAt = (at: number) => progressAt((at / duration) * settings.speedRatio + settings.phaseOffset) * totalLength
+    for (const [shapeId, intensity] of getShapeEffectIntensities(circuit, config.shapeEffects, time, lapDuration, distanceAt)) {
+      frame.shapeEffects[shapeId] = Math.max(frame.shapeEffects[shapeId] ?? -Infinity, intensity)
+    }
+  }
+
+  return frame
+}
+
+export const PLAYBACK_RATES: Array<{ rate: number; label: string }> = [
+  { rate: 0.25, label: '¼×' },
+  { rate: 0.5, label: '½×' },
+  { rate: 1, label: '1×' },
+  { rate: 2, label: '2×' },
+]
+
+// One step of frame-by-frame playback, in ms of animation time
+export const PLAYBACK_FRAME_MS = 1000 / 60
+
+// Fraction of a loop short of its end that seeking to the end lands on
+const SEEK_END_MARGIN = 1e-6
+
+/**
+ * Loop phases (0-1) where a circuit starts a new lap, so the scrubber can show
+ * where each circuit wraps around within one loop of the whole design
+ */
+export function getLapMarkers(
+  shapes: BaseShape[],
+  connections: Connection[],
+  config: AnimationConfig,
+  circuitOrder: CircuitStep[] = []
+): number[] {
+  const markers = new Set<number>()
+  for (const { circuit, settings } of buildSubCircuits(connections, shapes, config, circuitOrder)) {
+    if ((circuit[circuit.length - 1]?.endDistance || 0) === 0) continue
+    // A lap starts wherever phase * speedRatio + phaseOffset is a whole number
+    const first = Math.ceil(settings.phaseOffset)
+    for (let lap = first; lap < first + settings.speedRatio + 1; lap++) {
+      const phase = (lap - settings.phaseOffset) / settings.speedRatio
+      if (phase >= 0 && phase < 1) markers.add(Math.round(phase * 10000) / 10000)
+    }
+  }
+  return [...markers].sort((a, b) => a - b)
+}
+
+export function usePathAnimation(
+  connections: () => Connection[],
+  shapes: () => BaseShape[],
+  config: () => AnimationConfig,
+  circuitOrder: () => CircuitStep[] = () => [],
+  loaderState: () => LoaderStateName = () => 'loading'
+) {
+  const isPlaying = ref(false)
+  // Paused playback holds its frame on screen until it resumes or is stopped
+  const isPaused = ref(false)
+  const playbackRate = ref(1)
+  // Use ref for animation state
+  const animationDots = ref<AnimationDot[]>([])
+  const snakeSegments = ref<SnakeSegment[]>([])
+  // Effect intensity per shape id (empty when no shape is reacting)
+  const shapeEffects = ref<Record<string, number>>({})
+  // Shapes and connections as keyframed by the timeline (null = drawn as they are)
+  const scene = ref<{ shapes: BaseShape[]; connections: Connection[] } | null>(null)
+  // Degrees rotated since playback started
+  const rotation = ref(0)
+  // Position within the loop (0-1) and ms per loop, for the scrubber
+  const phase = ref(0)
+  const loopDuration = ref(0)
+  let animationFrameId: number | null = null
+  // ms of animation time since playback started; it only advances while playing unpaused
+  let time = 0
+  let lastTick: number | null = null
+  // Progress value on screen, easing towards the configured one in determinate mode
+  let shownProgress: number | null = null
+  // Rotation is re-based whenever its speed or direction changes so the angle never jumps
+  let rotationStartTime = 0
+  let rotationBase = 0
+  // Scene on screen when the state last changed, and ms of real time spent morphing away from it
+  let stateMorph: { from: { shapes: BaseShape[]; connections: Connection[] }; elapsed: number } | null = null
+  let lastStateScene: { shapes: BaseShape[]; connections: Connection[] } | null = null
+  // Last progress drawn, so filling the circuit carries on from where the dot was
+  let lastProgress = 0
+
+  // Shapes and lines of the current state, part way through the morph into it
+  function sampleStateScene(elapsed: number) {
+    const state = getLoaderState(config(), loaderState())
+    const target = applyLoaderState(shapes(), connections(), state)
+    if (!stateMorph) return { state, settled: 1, stateScene: target }
+
+    stateMorph.elapsed += elapsed
+    const linear = state.duration > 0 ? Math.min(1, stateMorph.elapsed / state.duration) : 1
+    const settled = createEasingFunction(state.easing)(linear)
+    if (linear >= 1) stateMorph = null
+    return { state, settled, stateScene: blendScenes(stateMorph?.from ?? target, target, settled) }
+  }
+
+  // Sample the frame at the current animation time; `elapsed` is the real time
+  // since the last frame, which smoothed progress catches up by
+  // Returns true once a stopped state has faded out, after which frames stop changing
+  function renderFrame(elapsed = 0): boolean {
+    const { state, settled, stateScene } = sampleStateScene(elapsed)
+    lastStateScene = stateScene
+    let currentConfig = getStateMotionConfig(config(), state.motion)
+    if (currentConfig.progressMode === 'determinate') {
+      const target = Math.max(0, Math.min(1, currentConfig.progress))
+      const smoothing = currentConfig.progressSmoothing
+      if (shownProgress === null) {
+        shownProgress = config().progressMode === 'determinate' || smoothing <= 0 ? target : lastProgress
+      } else if (smoothing <= 0) {
+        shownProgress = target
+      } else {
+        shownProgress += (target - shownProgress) * (1 - Math.exp(-elapsed / smoothing))
+      }
+      currentConfig = { ...currentConfig, progress: shownProgress }
+    } else {
+      shownProgress = null
+    }
+    const frame = sampleAnimation(stateScene.shapes, stateScene.connections, currentConfig, { time }, circuitOrder())
+    // In loop mode a reverse circuit's progress counts from the far end
+    lastProgress = currentConfig.progressMode === 'loop' && currentConfig.direction === 'reverse'
+      ? 1 - frame.progress
+      : frame.progress
+
+    // Assign new arrays to trigger reactivity; a stopping state fades the dot out as it morphs
+    const visibility = state.motion === 'stop' ? 1 - settled : 1
+    animationDots.value = visibility > 0
+      ? frame.dots.map(dot => ({ ...dot, opacity: dot.opacity * visibility }))
+      : []
+    snakeSegments.value = visibility > 0
+      ? frame.snakes.map(snake => ({
+          ...snake,
+          pieces: snake.pieces.map(piece => ({ ...piece, opacity: piece.opacity * visibility })),
+        }))
+      : []
+    shapeEffects.value = visibility > 0 ? frame.shapeEffects : {}
+    scene.value = frame.shapes !== shapes() || frame.connections !== connections()
+      ? { shapes: frame.shapes, connections: frame.connections }
+      : null
+    phase.value = frame.phase
+    loopDuration.value = frame.duration
+    // Rotation follows the playback direction from the moment it was re-based
+    const directedTime = (at: number) => getDirectedTime(at, frame.duration, currentConfig.direction)
+    rotation.value = rotationBase
+      + (currentConfig.rotationSpeed * (directedTime(time) - directedTime(rotationStartTime))) / 1000
+    return state.motion === 'stop' && stateMorph === null
+  }
+
+  // Animation loop - keeps rendering while paused so edits still show on the held frame
+  function animate() {
+    if (!isPlaying.value) return
 
-      // Assign new array to trigger reactivity
-      animationDots.value = newDots
+    const now = performance.now()
+    const elapsed = lastTick === null ? 0 : now - lastTick
+    if (!isPaused.value) {
+      time += elapsed * playbackRate.value
+    }
+    lastTick = now
+    // A stopped loader has nothing left to draw, so no more frames are asked
+    // for until something changes (see wake)
+    if (renderFrame(elapsed)) {
+      animationFrameId = null
+      return
     }
 
     animationFrameId = requestAnimationFrame(animate)
   }
 
+  // Restart the frame loop if it went idle in a stopped state
+  function wake() {
+    if (!isPlaying.value || animationFrameId !== null) return
+    lastTick = null
+    animate()
+  }
+
   function startAnimation() {
     if (isPlaying.value) return
     isPlaying.value = true
-    startTime = null
+    isPaused.value = false
+    lastTick = null
+    time = 0
+    rotationStartTime = 0
+    rotationBase = 0
+    rotation.value = 0
+    stateMorph = null
+    lastStateScene = null
+    lastProgress = 0
     animationDots.value = []
     animate()
   }
 
   function stopAnimation() {
     isPlaying.value = false
+    isPaused.value = false
     if (animationFrameId !== null) {
       cancelAnimationFrame(animationFrameId)
       animationFrameId = null
     }
-    startTime = null
+    lastTick = null
+    shownProgress = null
+    time = 0
+    phase.value = 0
+    rotationStartTime = 0
+    rotationBase = 0
+    rotation.value = 0
+    stateMorph = null
+    lastStateScene = null
     animationDots.value = []
-    snakeSegment.value = null
+    snakeSegments.value = []
+    shapeEffects.value = {}
+    scene.value = null
   }
 
   function toggleAnimation() {
@@ -609,6 +1208,34 @@ export function usePathAnimation(
     }
   }
 
+  function togglePause() {
+    isPaused.value = !isPaused.value
+  }
+
+  /**
+   * Jump to a phase (0-1) of the current loop; rotation follows as if playback
+   * had run to that point
+   */
+  function seek(target: number) {
+    if (!isPlaying.value || loopDuration.value === 0) return
+    // The very end of the bar stays on this loop's last moment instead of wrapping to the next loop's start
+    const loop = Math.floor(time / loopDuration.value)
+    time = (loop + Math.max(0, Math.min(1 - SEEK_END_MARGIN, target))) * loopDuration.value
+    renderFrame()
+  }
+
+  // Pause and move the given number of frames forward (negative = back)
+  function stepFrames(frames: number) {
+    if (!isPlaying.value) return
+    isPaused.value = true
+    time += frames * PLAYBACK_FRAME_MS
+    renderFrame()
+  }
+
+  function setPlaybackRate(rate: number) {
+    playbackRate.value = rate
+  }
+
   // Watch for config.enabled changes
   watch(
     () => config().enabled,
@@ -622,6 +1249,39 @@ export function usePathAnimation(
     { immediate: true }
   )
 
+  watch(
+    () => [config().rotationSpeed, config().direction],
+    () => {
+      if (isPlaying.value) {
+        rotationBase = rotation.value
+        rotationStartTime = time
+      }
+    }
+  )
+
+  // A new state morphs from whatever is on screen; turning back keeps the dot
+  // where it is and sends it the other way round the circuit
+  watch(
+    loaderState,
+    (next, previous) => {
+      if (!isPlaying.value || next === previous) return
+      stateMorph = { from: lastStateScene ?? { shapes: shapes(), connections: connections() }, elapsed: 0 }
+
+      const before = getStateMotionConfig(config(), getLoaderState(config(), previous).motion).direction
+      const after = getStateMotionConfig(config(), getLoaderState(config(), next).motion).direction
+      if (before !== after && loopDuration.value > 0) {
+        const loops = time / loopDuration.value
+        rotationBase = rotation.value
+        time = (Math.floor(loops) + 1 - (loops - Math.floor(loops))) * loopDuration.value
+        rotationStartTime = time
+      }
+      wake()
+    }
+  )
+
+  // Edits made while the loop is idle still need drawing
+  watch([config, shapes, connections, circuitOrder], wake, { deep: true })
+
   // Cleanup on unmount
   onUnmounted(() => {
     stopAnimation()
@@ -629,10 +1289,21 @@ export function usePathAnimation(
 
   return {
     isPlaying,
+    isPaused,
+    playbackRate,
     animationDots,
-    snakeSegment,
+    snakeSegments,
+    shapeEffects,
+    scene,
+    rotation,
+    phase,
+    loopDuration,
     startAnimation,
     stopAnimation,
     toggleAnimation,
+    togglePause,
+    seek,
+    stepFrames,
+    setPlaybackRate,
   }
 }
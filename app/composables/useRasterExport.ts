@@ -0,0 +1,264 @@
+import Konva from 'konva'
+import type { CanvasDocument } from '~/types/canvas'
+import { getConnectionGeometry } from './useCanvasState'
+import { encodeGif } from './useGifEncoder'
+import type { GifFrame } from './useGifEncoder'
+import { getKonvaFillProps, getKonvaStrokeProps, getShapeStrokeColor } from './useKonvaGradients'
+import { sampleAnimation } from './usePathAnimation'
+import type { AnimationFrame } from './usePathAnimation'
+import { getKonvaShapeEffectProps, getShapeEffectStyle } from './useShapeEffects'
+import { getExportFrame } from './useSvgExport'
+
+export interface RasterExportOptions {
+  fps: number
+  size: number  // Longest side of the output in px
+  background: string | null  // null = transparent
+  padding?: number
+}
+
+export type RasterExportProgress = (progress: number) => void
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+export function createDefaultRasterExportOptions(): RasterExportOptions {
+  return {
+    fps: 24,
+    size: 256,
+    background: null,
+  }
+}
+
+/**
+ * Times (ms) of every frame in exactly one loop at the given frame rate
+ * Designs without a circuit produce a single still frame
+ */
+export function getLoopFrameTimes(doc: CanvasDocument, fps: number): number[] {
+  const { duration } = sampleAnimation(doc.shapes, doc.connections, doc.animation, { phase: 0 }, doc.circuitOrder)
+  if (duration === 0) return [0]
+
+  const count = Math.max(1, Math.round((duration / 1000) * fps))
+  return Array.from({ length: count }, (_, i) => (i / count) * duration)
+}
+
+/**
+ * Off-screen Konva scene that mirrors the editor's content layer
+ */
+function createLoaderScene(doc: CanvasDocument, options: RasterExportOptions) {
+  const frame = getExportFrame(doc, options.padding ?? 16)
+  const scale = options.size / Math.max(frame.width, frame.height, 1)
+  const width = Math.max(1, Math.round(frame.width * scale))
+  const height = Math.max(1, Math.round(frame.height * scale))
+  const { center } = frame
+
+  const stage = new Konva.Stage({ container: document.createElement('div'), width, height })
+  const layer = new Konva.Layer({ listening: false })
+  stage.add(layer)
+  // One canvas pixel per output pixel regardless of the display's density
+  layer.getCanvas().setPixelRatio(1)
+  layer.getCanvas().setSize(width, height)
+  const isSnakeMode = doc.animation.animationMode === 'snake'
+
+  function render(animationFrame: AnimationFrame) {
+    layer.destroyChildren()
+
+    if (options.background) {
+      layer.add(new Konva.Rect({ width, height, fill: options.background }))
+    }
+
+    const group = new Konva.Group({
+      x: (center.x - frame.x) * scale,
+      y: (center.y - frame.y) * scale,
+      scaleX: scale,
+      scaleY: scale,
+      rotation: doc.rotation + animationFrame.rotation,
+    })
+    layer.add(group)
+    const local = (p: { x: number; y: number }) => ({ x: p.x - center.x, y: p.y - center.y })
+
+    // Lines (dimmed behind the snake), as keyframed at this moment
+    for (const connection of animationFrame.connections) {
+      const geometry = getConnectionGeometry(connection, animationFrame.shapes)
+      if (!geometry) continue
+      const from = local(geometry.from)
+      const to = local(geometry.to)
+      const common = {
+        ...getKonvaStrokeProps(connection.stroke, from, to),
+        strokeWidth: 3,
+        lineCap: 'round' as const,
+        lineJoin: 'round' as const,
+        opacity: isSnakeMode ? 0.3 : 1,
+      }
+      if (geometry.control) {
+        const control = local(geometry.control)
+        group.add(new Konva.Path({ ...common, data: `M ${from.x} ${from.y} Q ${control.x} ${control.y} ${to.x} ${to.y}` }))
+      } else {
+        group.add(new Konva.Line({ ...common, points: [from.x, from.y, to.x, to.y] }))
+      }
+    }
+
+    for (const dot of animationFrame.dots) {
+      group.add(new Konva.Circle({
+        ...local(dot),
+        radius: dot.size,
+        opacity: dot.opacity,
+        fill: doc.animation.dotColor,
+        shadowBlur: 10,
+        shadowColor: doc.animation.dotColor,
+        shadowOpacity: 0.8,
+      }))
+    }
+
+    for (const snake of animationFrame.snakes) {
+      for (const piece of snake.pieces) {
+        group.add(new Konva.Line({
+          points: piece.outline.map((p, i) => p - (i % 2 === 0 ? center.x : center.y)),
+          fill: piece.color,
+          opacity: piece.opacity,
+          closed: true,
+        }))
+      }
+    }
+
+    // Shapes on top, same as the editor
+    for (const shape of animationFrame.shapes) {
+      // Shapes react to the dot the same way as in the editor
+      const style = getShapeEffectStyle(shape, doc.animation.shapeEffects, animationFrame.shapeEffects[shape.id] ?? 0)
+      const effect = getKonvaShapeEffectProps(shape, doc.animation.shapeEffects, style)
+      const position = local(shape)
+      const shapeGroup = new Konva.Group({
+        ...effect.group,
+        x: position.x + effect.group.x,
+        y: position.y + effect.group.y,
+        opacity: (shape.opacity ?? 1) * effect.group.opacity,
+      })
+      const stroke = getShapeStrokeColor(shape.fill, false)
+      if (shape.type === 'circle') {
+        const radius = shape.radius || 20
+        shapeGroup.add(new Konva.Circle({
+          radius,
+          ...getKonvaFillProps(style.fill, { width: radius * 2, height: radius * 2 }),
+          stroke,
+          strokeWidth: 2,
+          ...effect.glow,
+        }))
+      } else {
+        const w = shape.width || 40
+        const h = shape.height || 40
+        const fill = { ...getKonvaFillProps(style.fill, { width: w, height: h }), ...effect.glow }
+        shapeGroup.add(shape.type === 'square'
+          ? new Konva.Rect({ width: w, height: h, ...fill, stroke, strokeWidth: 2, cornerRadius: 4 })
+          : new Konva.Line({ points: [0, h, w / 2, 0, w, h], closed: true, ...fill, stroke, strokeWidth: 2 }))
+      }
+      group.add(shapeGroup)
+    }
+
+    layer.draw()
+  }
+
+  return {
+    width,
+    height,
+    canvas: layer.getNativeCanvasElement(),
+    render,
+    destroy: () => stage.destroy(),
+  }
+}
+
+// Give the browser a chance to paint between frames so long exports don't freeze the page
+function nextTick(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, Math.max(0, ms)))
+}
+
+/**
+ * Render one loop frame-by-frame and encode it as an animated GIF
+ */
+export async function exportGif(
+  doc: CanvasDocument,
+  options: RasterExportOptions,
+  onProgress?: RasterExportProgress
+): Promise<Blob> {
+  const scene = createLoaderScene(doc, options)
+  const times = getLoopFrameTimes(doc, options.fps)
+  // Frames share the loop evenly, which is rarely a whole number of 1/fps steps
+  const { duration } = sampleAnimation(doc.shapes, doc.connections, doc.animation, { phase: 0 }, doc.circuitOrder)
+  const delay = duration > 0 ? duration / times.length : 1000 / options.fps
+  const context = scene.canvas.getContext('2d')!
+  const frames: GifFrame[] = []
+
+  try {
+    for (let i = 0; i < times.length; i++) {
+      scene.render(sampleAnimation(doc.shapes, doc.connections, doc.animation, { time: times[i]! }, doc.circuitOrder))
+      frames.push({
+        data: context.getImageData(0, 0, scene.width, scene.height).data,
+        delay,
+      })
+      onProgress?.((i + 1) / (times.length + 1))
+      await nextTick()
+    }
+  } finally {
+    scene.destroy()
+  }
+
+  const gif = encodeGif(frames, {
+    width: scene.width,
+    height: scene.height,
+    transparent: !options.background,
+  })
+  onProgress?.(1)
+  return new Blob([gif], { type: 'image/gif' })
+}
+
+export function isWebmExportSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined'
+    && typeof HTMLCanvasElement !== 'undefined'
+    && 'captureStream' in HTMLCanvasElement.prototype
+    && WEBM_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type))
+}
+
+/**
+ * Record one loop as WebM. MediaRecorder timestamps frames by wall-clock time,
+ * so frames are pushed at the target rate and the export takes one loop to run
+ */
+export async function exportWebm(
+  doc: CanvasDocument,
+  options: RasterExportOptions,
+  onProgress?: RasterExportProgress
+): Promise<Blob> {
+  const mimeType = WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))!
+  const scene = createLoaderScene(doc, options)
+  const times = getLoopFrameTimes(doc, options.fps)
+  const frameDuration = 1000 / options.fps
+
+  // captureStream(0) only emits a frame when requestFrame() is called
+  const stream = scene.canvas.captureStream(0)
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data)
+  }
+  const stopped = new Promise<void>(resolve => recorder.addEventListener('stop', () => resolve()))
+
+  try {
+    recorder.start()
+    const start = performance.now()
+    for (let i = 0; i < times.length; i++) {
+      scene.render(sampleAnimation(doc.shapes, doc.connections, doc.animation, { time: times[i]! }, doc.circuitOrder))
+      track.requestFrame()
+      onProgress?.((i + 1) / times.length)
+      // Pace against the start time so timer jitter doesn't accumulate
+      await sleep(start + (i + 1) * frameDuration - performance.now())
+    }
+    recorder.stop()
+    await stopped
+  } finally {
+    stream.getTracks().forEach(t => t.stop())
+    scene.destroy()
+  }
+
+  return new Blob(chunks, { type: 'video/webm' })
+}
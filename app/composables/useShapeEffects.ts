@@ -0,0 +1,70 @@
+import type { BaseShape, ColorValue, ShapeEffectConfig, ShapeEffectTrigger, ShapeEffectType } from '~/types/canvas'
+import { tintColor } from './useKonvaGradients'
+
+export const SHAPE_EFFECT_TYPES: Array<{ type: ShapeEffectType; label: string }> = [
+  { type: 'pulse', label: 'Pulse' },
+  { type: 'glow', label: 'Glow' },
+  { type: 'flash', label: 'Flash' },
+  { type: 'opacity', label: 'Brighten' },
+]
+
+export const SHAPE_EFFECT_TRIGGERS: Array<{ trigger: ShapeEffectTrigger; label: string }> = [
+  { trigger: 'enter', label: 'On Enter' },
+  { trigger: 'leave', label: 'On Leave' },
+]
+
+// Extra size at the peak of a pulse
+const PULSE_SCALE = 0.25
+// Opacity of shapes waiting for the dot when they brighten as it passes
+const RESTING_OPACITY = 0.45
+// Glow blur in px at full strength
+export const SHAPE_GLOW_BLUR = 18
+
+/**
+ * How a shape looks at a given effect intensity (0 = at rest, 1 = just triggered)
+ * Springy easing can push the intensity past either end; only the pulse
+ * follows that overshoot, the other effects stay within their range
+ */
+export interface ShapeEffectStyle {
+  scale: number  // Around the shape's center
+  opacity: number
+  glow: number  // 0-1 strength of the glow around the shape
+  fill: ColorValue
+}
+
+export function getShapeEffectStyle(shape: BaseShape, effects: ShapeEffectConfig, intensity: number): ShapeEffectStyle {
+  const has = (type: ShapeEffectType) => effects.types.includes(type)
+  const strength = Math.max(0, Math.min(1, intensity))
+  return {
+    scale: has('pulse') ? Math.max(0, 1 + PULSE_SCALE * intensity) : 1,
+    opacity: has('opacity') ? RESTING_OPACITY + (1 - RESTING_OPACITY) * strength : 1,
+    glow: has('glow') ? strength : 0,
+    fill: has('flash') && strength > 0 ? tintColor(shape.fill, effects.color, strength) : shape.fill,
+  }
+}
+
+// Shape center relative to the point shapes are positioned by (circles by their center)
+export function getShapeLocalCenter(shape: BaseShape): { x: number; y: number } {
+  if (shape.type === 'circle') return { x: 0, y: 0 }
+  return { x: (shape.width || 40) / 2, y: (shape.height || 40) / 2 }
+}
+
+/**
+ * Konva props for drawing a shape with its effect: a group that scales the
+ * shape around its center and fades it, and the glow for the shape itself
+ */
+export function getKonvaShapeEffectProps(shape: BaseShape, effects: ShapeEffectConfig, style: ShapeEffectStyle) {
+  const center = getShapeLocalCenter(shape)
+  return {
+    group: {
+      x: center.x * (1 - style.scale),
+      y: center.y * (1 - style.scale),
+      scaleX: style.scale,
+      scaleY: style.scale,
+      opacity: style.opacity,
+    },
+    glow: style.glow > 0
+      ? { shadowColor: effects.color, shadowBlur: SHAPE_GLOW_BLUR * style.glow, shadowOpacity: style.glow }
+      : {},
+  }
+}
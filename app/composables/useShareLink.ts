@@ -0,0 +1,70 @@
+import type { CanvasDocument } from '~/types/canvas'
+import { CanvasDocumentError, deserializeDocument } from './useCanvasDocument'
+
+/**
+ * Hash parameter holding the design: #design=<deflate-raw + base64url JSON>
+ */
+export const SHARE_HASH_KEY = 'design'
+
+// Links don't need full float precision (anchor positions are 0-1 fractions, so keep 4 digits)
+const SHARE_PRECISION = 10000
+
+function roundNumbers(_key: string, value: unknown): unknown {
+  return typeof value === 'number' ? Math.round(value * SHARE_PRECISION) / SHARE_PRECISION : value
+}
+
+async function pipeThrough(bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/**
+ * Compress a document into the payload used in share links
+ */
+export async function encodeSharePayload(doc: CanvasDocument): Promise<string> {
+  const json = JSON.stringify(doc, roundNumbers)
+  return toBase64Url(await pipeThrough(new TextEncoder().encode(json), new CompressionStream('deflate-raw')))
+}
+
+/**
+ * Inverse of encodeSharePayload. Throws CanvasDocumentError for damaged links;
+ * links from older editor versions are migrated like saved files
+ */
+export async function decodeSharePayload(payload: string): Promise<CanvasDocument> {
+  let json: string
+  try {
+    const bytes = await pipeThrough(fromBase64Url(payload), new DecompressionStream('deflate-raw'))
+    json = new TextDecoder().decode(bytes)
+  } catch {
+    throw new CanvasDocumentError('This link is damaged or incomplete. Ask for a fresh copy of the link.')
+  }
+  return deserializeDocument(json)
+}
+
+/**
+ * Pull the share payload out of a location hash ("#design=..."), if any
+ */
+export function getSharePayload(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  return params.get(SHARE_HASH_KEY) || null
+}
+
+export async function createShareUrl(doc: CanvasDocument, baseUrl: string): Promise<string> {
+  const url = new URL(baseUrl)
+  url.hash = `${SHARE_HASH_KEY}=${await encodeSharePayload(doc)}`
+  return url.toString()
+}
@@ -0,0 +1,630 @@
+import type { BaseShape, CanvasDocument, ColorValue, Connection } from '~/types/canvas'
+import type { AnimationFrame } from './usePathAnimation'
+import { getConnectionGeometry, getConstellationCenter } from './useCanvasState'
+import { getKonvaFillProps, getKonvaStrokeProps, getShapeStrokeColor } from './useKonvaGradients'
+import { buildSubCircuits, getDotTrail, getRotationKeyframes, getSnakeBands, getSpinSpeed, sampleAnimation } from './usePathAnimation'
+import { SHAPE_GLOW_BLUR, getShapeEffectStyle, getShapeLocalCenter } from './useShapeEffects'
+import { applyTimeline } from './useTimeline'
+import type { ShapeEffectStyle } from './useShapeEffects'
+
+type Point = { x: number; y: number }
+
+export interface SvgExportOptions {
+  padding?: number  // Space around the design in px
+  background?: string | null  // null = transparent
+  samples?: number  // Motion keyframes per loop
+}
+
+/**
+ * Loop geometry shared by the exporters: one lap of a circuit sampled at evenly
+ * spaced times, one sample per keyframe (the last sample closes the lap)
+ * Speed ratio and phase offset are left to the renderer as repeat count and delay
+ */
+export interface SampledLoop {
+  duration: number  // ms per lap
+  laps: number  // Laps per loop of the whole design
+  phaseOffset: number  // 0-1 of a lap this circuit runs ahead of its start
+  totalLength: number
+  points: Point[]
+  connectionIds: string[]  // Connection under each sample (for snake coloring)
+  arcLengths: number[]  // Cumulative length of the sampled polyline at each sample
+}
+
+export function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * SVG path data for a connection (straight line or quadratic curve)
+ */
+export function getConnectionPathData(connection: Connection, shapes: BaseShape[]): string | null {
+  const geometry = getConnectionGeometry(connection, shapes)
+  if (!geometry) return null
+  const { from, to, control } = geometry
+  const f = formatNumber
+  return control
+    ? `M ${f(from.x)} ${f(from.y)} Q ${f(control.x)} ${f(control.y)} ${f(to.x)} ${f(to.y)}`
+    : `M ${f(from.x)} ${f(from.y)} L ${f(to.x)} ${f(to.y)}`
+}
+
+/**
+ * One sampled lap per circuit (one circuit per group of connected shapes)
+ */
+export function samplePathLoops(doc: CanvasDocument, samples: number): SampledLoop[] {
+  const subCircuits = buildSubCircuits(doc.connections, doc.shapes, doc.animation, doc.circuitOrder)
+
+  // Each path is traced by a single dot regardless of the design's mode, over
+  // one plain lap in the circuit's own direction
+  const config = {
+    ...doc.animation,
+    animationMode: 'dot' as const,
+    dotCount: 1,
+    subCircuits: subCircuits.map(({ settings }) => ({ ...settings, phaseOffset: 0, speedRatio: 1 })),
+  }
+  // Circuits without length draw no dot, so the rest keep their order in frame.dots
+  const loops: SampledLoop[] = subCircuits
+    .map(({ circuit, settings }) => ({
+      duration: 0,
+      laps: settings.speedRatio,
+      phaseOffset: settings.phaseOffset,
+      totalLength: circuit[circuit.length - 1]?.endDistance || 0,
+      points: [],
+      connectionIds: [],
+      arcLengths: [],
+    }))
+    .filter(loop => loop.totalLength > 0)
+  if (loops.length === 0) return []
+
+  for (let i = 0; i <= samples; i++) {
+    const frame = sampleAnimation(doc.shapes, doc.connections, config, { phase: i / samples }, doc.circuitOrder)
+    loops.forEach((loop, index) => {
+      const dot = frame.dots[index]
+      const previous = loop.points[loop.points.length - 1]
+      const current = dot ? { x: dot.x, y: dot.y } : previous ?? { x: 0, y: 0 }
+      const arc = previous
+        ? loop.arcLengths[loop.arcLengths.length - 1]! + Math.hypot(current.x - previous.x, current.y - previous.y)
+        : 0
+      loop.duration = frame.duration / loop.laps
+      loop.points.push(current)
+      loop.connectionIds.push(dot?.connectionId ?? loop.connectionIds[loop.connectionIds.length - 1] ?? '')
+      loop.arcLengths.push(arc)
+    })
+  }
+
+  return loops
+}
+
+/**
+ * The scene at evenly spaced times over one loop of the whole design (the last
+ * sample closes the loop): shapes and lines as keyframed by the timeline, and
+ * how strongly each shape reacts to the dot
+ * No frames when only the dot moves, so everything else can be drawn static
+ */
+export interface SampledScene {
+  duration: number  // ms per loop
+  frames: Array<Pick<AnimationFrame, 'shapes' | 'connections' | 'shapeEffects'>>
+}
+
+export function sampleScene(doc: CanvasDocument, samples: number): SampledScene {
+  const sampled: SampledScene = { duration: 0, frames: [] }
+  if (doc.animation.timeline.length === 0 && doc.animation.shapeEffects.types.length === 0) return sampled
+
+  for (let i = 0; i <= samples; i++) {
+    const frame = sampleAnimation(doc.shapes, doc.connections, doc.animation, { phase: i / samples }, doc.circuitOrder)
+    if (frame.duration === 0) return { duration: 0, frames: [] }
+    sampled.duration = frame.duration
+    sampled.frames.push({ shapes: frame.shapes, connections: frame.connections, shapeEffects: frame.shapeEffects })
+  }
+  return sampled
+}
+
+/**
+ * A shape as keyframed at one sample of the scene, and how it looks reacting to the dot
+ */
+export interface ShapeState {
+  shape: BaseShape
+  style: ShapeEffectStyle
+}
+
+/**
+ * The shape at every sample of the scene, or null when it stays as drawn
+ */
+export function getSampledShapeStates(doc: CanvasDocument, scene: SampledScene, shapeId: string): ShapeState[] | null {
+  const keyframed = doc.animation.timeline.some(track => track.targetId === shapeId)
+  if (!keyframed && !scene.frames.some(frame => (frame.shapeEffects[shapeId] ?? 0) !== 0)) return null
+
+  const states: ShapeState[] = []
+  for (const frame of scene.frames) {
+    const shape = frame.shapes.find(s => s.id === shapeId)
+    if (!shape) return null
+    states.push({ shape, style: getShapeEffectStyle(shape, doc.animation.shapeEffects, frame.shapeEffects[shapeId] ?? 0) })
+  }
+  return states.length > 0 ? states : null
+}
+
+/**
+ * The connection and the shapes it joins at every sample of the scene, or null
+ * when neither it nor its shapes are keyframed
+ */
+export function getSampledConnections(
+  doc: CanvasDocument,
+  scene: SampledScene,
+  connection: Connection
+): Array<{ connection: Connection; shapes: BaseShape[] }> | null {
+  const ids = [connection.id, connection.fromShapeId, connection.toShapeId]
+  if (!doc.animation.timeline.some(track => ids.includes(track.targetId))) return null
+
+  const sampled: Array<{ connection: Connection; shapes: BaseShape[] }> = []
+  for (const frame of scene.frames) {
+    const current = frame.connections.find(c => c.id === connection.id)
+    if (!current) return null
+    sampled.push({ connection: current, shapes: frame.shapes })
+  }
+  return sampled.length > 0 ? sampled : null
+}
+
+/**
+ * A shape state as a transform of the shape as drawn, in its local coordinates:
+ * shift by x/y, then scale by `scale` (keyframed size times any pulse, around
+ * the keyframed center)
+ */
+export function getShapeStateTransform(shape: BaseShape, state: ShapeState): { x: number; y: number; scale: number } {
+  const size = shape.type === 'circle'
+    ? (state.shape.radius || 20) / (shape.radius || 20)
+    : (state.shape.width || 40) / (shape.width || 40)
+  const center = getShapeLocalCenter(shape)
+  return {
+    x: state.shape.x - shape.x + center.x * size * (1 - state.style.scale),
+    y: state.shape.y - shape.y + center.y * size * (1 - state.style.scale),
+    scale: size * state.style.scale,
+  }
+}
+
+/**
+ * ms per loop of the whole design (every circuit fits its laps into it)
+ */
+export function getLoopsDuration(loops: SampledLoop[]): number {
+  const first = loops[0]
+  return first ? first.duration * first.laps : 0
+}
+
+/**
+ * How far (ms) into the lap a dot's animation starts, so that a copy of the
+ * lead dot's motion sits the given lap offset behind it (negative = ahead)
+ */
+export function getDotTrailDelay(offset: number, duration: number): number {
+  const wrapped = offset - Math.floor(offset)
+  return wrapped === 0 ? 0 : (1 - wrapped) * duration
+}
+
+function rotatePoint(point: Point, center: Point, degrees: number): Point {
+  const angle = (degrees * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const dx = point.x - center.x
+  const dy = point.y - center.y
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  }
+}
+
+/**
+ * Canvas-space frame that contains the design at every rotation angle it can reach
+ * Keyframed designs are measured at each keyframe too, so moving shapes stay in frame
+ */
+export function getExportFrame(doc: CanvasDocument, padding: number): { x: number; y: number; width: number; height: number; center: Point } {
+  const center = getConstellationCenter(doc.shapes, doc.connections)
+  const extents: Point[] = []
+
+  const offsets = [...new Set(doc.animation.timeline.flatMap(track => track.keyframes.map(k => k.offset)))]
+  const scenes = [
+    { shapes: doc.shapes, connections: doc.connections },
+    ...offsets.map(offset => applyTimeline(doc.shapes, doc.connections, doc.animation.timeline, offset)),
+  ]
+  for (const scene of scenes) {
+    for (const shape of scene.shapes) {
+      if (shape.type === 'circle') {
+        const r = shape.radius || 20
+        extents.push({ x: shape.x - r, y: shape.y - r }, { x: shape.x + r, y: shape.y + r })
+        extents.push({ x: shape.x - r, y: shape.y + r }, { x: shape.x + r, y: shape.y - r })
+      } else {
+        const w = shape.width || 40
+        const h = shape.height || 40
+        extents.push({ x: shape.x, y: shape.y }, { x: shape.x + w, y: shape.y + h })
+        extents.push({ x: shape.x + w, y: shape.y }, { x: shape.x, y: shape.y + h })
+      }
+    }
+    for (const connection of scene.connections) {
+      const geometry = getConnectionGeometry(connection, scene.shapes)
+      if (geometry?.control) extents.push(geometry.control)
+    }
+  }
+  if (extents.length === 0) {
+    return { x: 0, y: 0, width: padding * 2, height: padding * 2, center }
+  }
+
+  const margin = padding + doc.animation.dotSize
+  if (doc.animation.rotationSpeed !== 0) {
+    // Rotating designs get a square frame around the pivot
+    const radius = Math.max(...extents.map(p => Math.hypot(p.x - center.x, p.y - center.y))) + margin
+    return { x: center.x - radius, y: center.y - radius, width: radius * 2, height: radius * 2, center }
+  }
+
+  const rotated = extents.map(p => rotatePoint(p, center, doc.rotation))
+  const minX = Math.min(...rotated.map(p => p.x)) - margin
+  const minY = Math.min(...rotated.map(p => p.y)) - margin
+  const maxX = Math.max(...rotated.map(p => p.x)) + margin
+  const maxY = Math.max(...rotated.map(p => p.y)) + margin
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY, center }
+}
+
+export type SvgDefs = ReturnType<typeof createSvgDefs>
+
+/**
+ * Collects <defs> entries and hands out unique ids
+ */
+export function createSvgDefs(prefix: string = 'loader') {
+  const entries: string[] = []
+  let counter = 0
+
+  function nextId(kind: string): string {
+    counter += 1
+    return `${prefix}-${kind}-${counter}`
+  }
+
+  function add(markup: string) {
+    entries.push(markup)
+  }
+
+  function toString(): string {
+    return entries.length > 0 ? `<defs>${entries.join('')}</defs>` : ''
+  }
+
+  return { nextId, add, toString }
+}
+
+function gradientStops(stops: unknown): string {
+  const flat = Array.isArray(stops) ? stops : []
+  let markup = ''
+  for (let i = 0; i + 1 < flat.length; i += 2) {
+    markup += `<stop offset="${formatNumber(Number(flat[i]))}" stop-color="${escapeXml(String(flat[i + 1]))}"/>`
+  }
+  return markup
+}
+
+/**
+ * Turn Konva gradient props (from getKonvaFillProps/getKonvaStrokeProps) into an
+ * SVG paint value, adding a userSpaceOnUse gradient to defs when needed
+ */
+export function konvaPropsToPaint(props: Record<string, unknown>, kind: 'fill' | 'stroke', defs: SvgDefs): string {
+  if (typeof props[kind] === 'string') {
+    return escapeXml(props[kind] as string)
+  }
+
+  const linearStart = props[`${kind}LinearGradientStartPoint`] as Point | undefined
+  const linearEnd = props[`${kind}LinearGradientEndPoint`] as Point | undefined
+  if (linearStart && linearEnd) {
+    const id = defs.nextId('gradient')
+    defs.add(
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${formatNumber(linearStart.x)}" y1="${formatNumber(linearStart.y)}" x2="${formatNumber(linearEnd.x)}" y2="${formatNumber(linearEnd.y)}">`
+      + gradientStops(props[`${kind}LinearGradientColorStops`])
+      + '</linearGradient>'
+    )
+    return `url(#${id})`
+  }
+
+  const radialCenter = props[`${kind}RadialGradientStartPoint`] as Point | undefined
+  const radius = props[`${kind}RadialGradientEndRadius`] as number | undefined
+  if (radialCenter && radius !== undefined) {
+    const id = defs.nextId('gradient')
+    defs.add(
+      `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${formatNumber(radialCenter.x)}" cy="${formatNumber(radialCenter.y)}" r="${formatNumber(radius)}">`
+      + gradientStops(props[`${kind}RadialGradientColorStops`])
+      + '</radialGradient>'
+    )
+    return `url(#${id})`
+  }
+
+  return 'none'
+}
+
+/**
+ * Paint for an element whose gradient should stretch over its own bounding box
+ * (used where the geometry moves, like the snake)
+ */
+export function colorToBoundingBoxPaint(color: ColorValue, defs: SvgDefs): string {
+  if (typeof color === 'string') return escapeXml(color)
+
+  const id = defs.nextId('gradient')
+  const stops = color.stops
+    .map(s => `<stop offset="${formatNumber(s.offset)}" stop-color="${escapeXml(s.color)}"/>`)
+    .join('')
+  if (color.type === 'radial') {
+    defs.add(`<radialGradient id="${id}">${stops}</radialGradient>`)
+  } else {
+    const angle = ((color.angle ?? 0) * Math.PI) / 180
+    const x = Math.cos(angle) / 2
+    const y = Math.sin(angle) / 2
+    defs.add(
+      `<linearGradient id="${id}" x1="${formatNumber(0.5 - x)}" y1="${formatNumber(0.5 - y)}" x2="${formatNumber(0.5 + x)}" y2="${formatNumber(0.5 + y)}">${stops}</linearGradient>`
+    )
+  }
+  return `url(#${id})`
+}
+
+/**
+ * SVG markup for one shape, drawn in its local coordinates like the editor does
+ * With sampled states the shape moves, resizes and fades as keyframed, and
+ * pulses, flashes and glows along with the dot; only solid fills can change color
+ */
+export function renderShapeSvg(shape: BaseShape, defs: SvgDefs, animation?: { states: ShapeState[]; duration: number; color: string }): string {
+  const f = formatNumber
+  const stroke = escapeXml(getShapeStrokeColor(shape.fill, false))
+  const r = shape.radius || 20
+  const w = shape.type === 'circle' ? r * 2 : shape.width || 40
+  const h = shape.type === 'circle' ? r * 2 : shape.height || 40
+  const fill = konvaPropsToPaint(getKonvaFillProps(shape.fill, { width: w, height: h }), 'fill', defs)
+
+  let children = ''
+  let filter = ''
+  let groupAnimation = ''
+  let opacity = shape.opacity ?? 1
+  if (animation) {
+    const { states } = animation
+    const animate = (attribute: string, values: string[]) =>
+      `<animate attributeName="${attribute}" dur="${f(animation.duration / 1000)}s" repeatCount="indefinite" calcMode="linear" values="${values.join(';')}"/>`
+    const animateTransform = (type: string, values: string[], extra = '') =>
+      `<animateTransform attributeName="transform" type="${type}" dur="${f(animation.duration / 1000)}s" repeatCount="indefinite" calcMode="linear" values="${values.join(';')}"${extra}/>`
+
+    const transforms = states.map(state => getShapeStateTransform(shape, state))
+    if (transforms.some(t => t.x !== 0 || t.y !== 0 || t.scale !== 1)) {
+      groupAnimation += animateTransform('translate', transforms.map(t => `${f(t.x)} ${f(t.y)}`))
+      groupAnimation += animateTransform('scale', transforms.map(t => f(t.scale)), ' additive="sum"')
+    }
+    const opacities = states.map(state => (state.shape.opacity ?? 1) * state.style.opacity)
+    if (opacities.some(o => o !== 1)) {
+      groupAnimation += animate('opacity', opacities.map(f))
+      opacity = 1
+    }
+    const fills = states.map(state => state.style.fill)
+    if (fills.every(c => typeof c === 'string') && fills.some(c => c !== shape.fill)) {
+      children += animate('fill', fills.map(c => escapeXml(c as string)))
+    }
+    if (states.some(state => state.style.glow > 0)) {
+      // Canvas shadow blur is twice the SVG standard deviation
+      const id = defs.nextId('shape-glow')
+      defs.add(
+        `<filter id="${id}" x="-100%" y="-100%" width="300%" height="300%">`
+        + `<feDropShadow dx="0" dy="0" stdDeviation="0" flood-color="${escapeXml(animation.color)}" flood-opacity="0">`
+        + animate('stdDeviation', states.map(state => f((SHAPE_GLOW_BLUR * state.style.glow) / 2)))
+        + animate('flood-opacity', states.map(state => f(state.style.glow)))
+        + '</feDropShadow></filter>'
+      )
+      filter = ` filter="url(#${id})"`
+    }
+  }
+
+  const paint = `fill="${fill}" stroke="${stroke}" stroke-width="2"${filter}`
+  const close = (tag: string) => (children ? `>${children}</${tag}>` : '/>')
+  let element: string
+  if (shape.type === 'circle') {
+    element = `<circle r="${f(r)}" ${paint}${close('circle')}`
+  } else if (shape.type === 'square') {
+    element = `<rect width="${f(w)}" height="${f(h)}" rx="4" ${paint}${close('rect')}`
+  } else {
+    element = `<polygon points="0,${f(h)} ${f(w / 2)},0 ${f(w)},${f(h)}" ${paint}${close('polygon')}`
+  }
+  if (groupAnimation) element = `<g>${groupAnimation}${element}</g>`
+  const opacityAttr = opacity < 1 ? ` opacity="${f(opacity)}"` : ''
+  return `<g transform="translate(${f(shape.x)} ${f(shape.y)})"${opacityAttr}>${element}</g>`
+}
+
+/**
+ * SVG markup for one connection
+ * With sampled states the line follows its keyframed shapes and curve, and
+ * changes color if every keyframed color is solid
+ */
+export function renderConnectionSvg(
+  connection: Connection,
+  shapes: BaseShape[],
+  defs: SvgDefs,
+  opacity: number,
+  animation?: { states: Array<{ connection: Connection; shapes: BaseShape[] }>; duration: number }
+): string {
+  const geometry = getConnectionGeometry(connection, shapes)
+  const data = getConnectionPathData(connection, shapes)
+  if (!geometry || !data) return ''
+
+  const stroke = konvaPropsToPaint(getKonvaStrokeProps(connection.stroke, geometry.from, geometry.to), 'stroke', defs)
+  const opacityAttr = opacity < 1 ? ` opacity="${formatNumber(opacity)}"` : ''
+  let children = ''
+  if (animation) {
+    const dur = formatNumber(animation.duration / 1000)
+    const paths = animation.states.map(state => getCurvePathData(state.connection, state.shapes))
+    if (paths.every(p => p !== null) && new Set(paths).size > 1) {
+      children += `<animate attributeName="d" dur="${dur}s" repeatCount="indefinite" calcMode="linear" values="${paths.join(';')}"/>`
+    }
+    const strokes = animation.states.map(state => state.connection.stroke)
+    if (strokes.every(c => typeof c === 'string') && strokes.some(c => c !== connection.stroke)) {
+      children += `<animate attributeName="stroke" dur="${dur}s" repeatCount="indefinite" calcMode="linear" values="${strokes.map(c => escapeXml(c as string)).join(';')}"/>`
+    }
+  }
+  const attributes = `fill="none" stroke="${stroke}" stroke-width="3" stroke-linecap="round" stroke-linejoin="round"${opacityAttr}`
+  return children ? `<path d="${data}" ${attributes}>${children}</path>` : `<path d="${data}" ${attributes}/>`
+}
+
+// Connection path data that is always a quadratic curve (a straight line bends
+// around its midpoint), so the paths of an animation can morph into each other
+function getCurvePathData(connection: Connection, shapes: BaseShape[]): string | null {
+  const geometry = getConnectionGeometry(connection, shapes)
+  if (!geometry) return null
+  const { from, to } = geometry
+  const control = geometry.control ?? { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 }
+  const f = formatNumber
+  return `M ${f(from.x)} ${f(from.y)} Q ${f(control.x)} ${f(control.y)} ${f(to.x)} ${f(to.y)}`
+}
+
+/**
+ * Polyline path data through the sampled loop
+ */
+export function getLoopPathData(loop: SampledLoop): string {
+  return loop.points
+    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${formatNumber(p.x)} ${formatNumber(p.y)}`)
+    .join(' ')
+}
+
+function renderDots(doc: CanvasDocument, loops: SampledLoop[], defs: SvgDefs): string {
+  const { dotSize, dotColor } = doc.animation
+  const filterId = defs.nextId('glow')
+  defs.add(
+    `<filter id="${filterId}" x="-100%" y="-100%" width="300%" height="300%">`
+    + `<feDropShadow dx="0" dy="0" stdDeviation="5" flood-color="${escapeXml(dotColor)}" flood-opacity="0.8"/></filter>`
+  )
+
+  return loops.map((loop) => {
+    const values = loop.points.map(p => `${formatNumber(p.x)},${formatNumber(p.y)}`).join(';')
+    const dur = formatNumber(loop.duration / 1000)
+    // Trailing dots run the same motion, started earlier by a negative begin
+    // so each sits its offset behind the lead dot
+    return getDotTrail(doc.animation).map(({ offset, scale }) => {
+      const lag = getDotTrailDelay(offset - loop.phaseOffset, loop.duration)
+      const begin = lag > 0 ? ` begin="-${formatNumber(lag / 1000)}s"` : ''
+      const opacity = scale < 1 ? ` opacity="${formatNumber(scale)}"` : ''
+      return `<circle r="${formatNumber(dotSize * scale)}" fill="${escapeXml(dotColor)}"${opacity} filter="url(#${filterId})">`
+        + `<animateMotion dur="${dur}s" repeatCount="indefinite" calcMode="linear"${begin} values="${values}"/>`
+        + '</circle>'
+    }).join('')
+  }).join('')
+}
+
+// Connection under the point a given arc length behind each sample
+function getTrailingConnectionIds(loop: SampledLoop, lag: number): string[] {
+  const arcTotal = loop.arcLengths[loop.arcLengths.length - 1] ?? 0
+  if (lag <= 0 || arcTotal === 0) return loop.connectionIds
+
+  return loop.arcLengths.map((arc) => {
+    const target = (((arc - lag) % arcTotal) + arcTotal) % arcTotal
+    let nearest = 0
+    loop.arcLengths.forEach((other, j) => {
+      if (Math.abs(other - target) < Math.abs(loop.arcLengths[nearest]! - target)) nearest = j
+    })
+    return loop.connectionIds[nearest]!
+  })
+}
+
+function renderSnake(doc: CanvasDocument, loop: SampledLoop, defs: SvgDefs): string {
+  const arcTotal = loop.arcLengths[loop.arcLengths.length - 1] ?? 0
+  if (arcTotal === 0) return ''
+
+  const snakeArc = doc.animation.snakeLength * arcTotal
+  const dur = formatNumber(loop.duration / 1000)
+  const lag = getDotTrailDelay(-loop.phaseOffset, loop.duration)
+  const begin = lag > 0 ? ` begin="-${formatNumber(lag / 1000)}s"` : ''
+  const paints = new Map<string, string>()
+  const paint = (id: string) => {
+    if (!paints.has(id)) {
+      const connection = doc.connections.find(c => c.id === id)
+      paints.set(id, colorToBoundingBoxPaint(connection?.stroke ?? '#d946ef', defs))
+    }
+    return paints.get(id)!
+  }
+
+  const bands = getSnakeBands(doc.animation)
+  return bands.map((band, index) => {
+    // A dash exactly as long as the band repeating once per lap; moving the
+    // dash offset with the head position makes the wrap-around seamless
+    const bandArc = (band.end - band.start) * snakeArc
+    const offsets = loop.arcLengths.map(arc => formatNumber(snakeArc * (1 - band.start) - arc)).join(';')
+    // Only the outer ends of the snake get its cap so bands don't overlap
+    const cap = index === 0 || index === bands.length - 1 ? doc.animation.snakeCap : 'butt'
+    const opacity = band.opacity < 1 ? ` opacity="${formatNumber(band.opacity)}"` : ''
+
+    // Without a gradient, color follows the connection under the front of the
+    // band, like the live snake
+    let stroke = band.color ? escapeXml(band.color) : ''
+    let strokeAnimation = ''
+    if (!band.color) {
+      const strokeValues = getTrailingConnectionIds(loop, (1 - band.end) * snakeArc).map(paint)
+      stroke = strokeValues[0]!
+      if (new Set(strokeValues).size > 1) {
+        strokeAnimation = `<animate attributeName="stroke" dur="${dur}s" repeatCount="indefinite" calcMode="discrete"${begin} values="${strokeValues.join(';')}"/>`
+      }
+    }
+
+    return `<path d="${getLoopPathData(loop)}" fill="none" stroke="${stroke}" stroke-width="${formatNumber(band.width)}" stroke-linecap="${cap}" stroke-linejoin="round"${opacity}`
+      + ` stroke-dasharray="${formatNumber(bandArc)} ${formatNumber(arcTotal - bandArc)}">`
+      + `<animate attributeName="stroke-dashoffset" dur="${dur}s" repeatCount="indefinite" calcMode="linear"${begin} values="${offsets}"/>`
+      + strokeAnimation
+      + '</path>'
+  }).join('')
+}
+
+/**
+ * Render the design as a standalone SVG that animates with SMIL only (no script)
+ */
+export function exportAnimatedSvg(doc: CanvasDocument, options: SvgExportOptions = {}): string {
+  const padding = options.padding ?? 16
+  const samples = options.samples ?? 120
+  const frame = getExportFrame(doc, padding)
+  const defs = createSvgDefs()
+  const f = formatNumber
+  const { center } = frame
+  const isSnakeMode = doc.animation.animationMode === 'snake'
+
+  const loops = samplePathLoops(doc, samples)
+  const scene = sampleScene(doc, samples)
+  const connectionsMarkup = doc.connections
+    .map((c) => {
+      const states = getSampledConnections(doc, scene, c)
+      return renderConnectionSvg(c, doc.shapes, defs, isSnakeMode && loops.length > 0 ? 0.3 : 1, states ? { states, duration: scene.duration } : undefined)
+    })
+    .join('')
+  let motionMarkup = ''
+  if (loops.length > 0) {
+    motionMarkup = isSnakeMode
+      ? loops.map(loop => renderSnake(doc, loop, defs)).join('')
+      : renderDots(doc, loops, defs)
+  }
+  const shapesMarkup = doc.shapes
+    .map((s) => {
+      const states = getSampledShapeStates(doc, scene, s.id)
+      return renderShapeSvg(s, defs, states ? { states, duration: scene.duration, color: doc.animation.shapeEffects.color } : undefined)
+    })
+    .join('')
+
+  const rotationSpeed = getSpinSpeed(doc.animation)
+  const rotation = `${f(doc.rotation)} ${f(center.x)} ${f(center.y)}`
+  const loopDuration = getLoopsDuration(loops)
+  const swing = getRotationKeyframes(doc.animation, loopDuration)
+  let rotationAnimation = ''
+  if (swing) {
+    // Ping-pong swings back and forth once per loop
+    const values = swing.map(k => `${f(doc.rotation + k.angle)} ${f(center.x)} ${f(center.y)}`).join(';')
+    const keyTimes = swing.map(k => f(k.phase)).join(';')
+    rotationAnimation = `<animateTransform attributeName="transform" type="rotate" values="${values}" keyTimes="${keyTimes}" dur="${f(loopDuration / 1000)}s" repeatCount="indefinite"/>`
+  } else if (rotationSpeed !== 0) {
+    rotationAnimation = `<animateTransform attributeName="transform" type="rotate" from="${rotation}" to="${f(doc.rotation + Math.sign(rotationSpeed) * 360)} ${f(center.x)} ${f(center.y)}" dur="${f(360 / Math.abs(rotationSpeed))}s" repeatCount="indefinite"/>`
+  }
+
+  const background = options.background
+    ? `<rect x="${f(frame.x)}" y="${f(frame.y)}" width="${f(frame.width)}" height="${f(frame.height)}" fill="${escapeXml(options.background)}"/>`
+    : ''
+
+  // Same stacking as the editor: lines, then the dot/snake, then shapes on top
+  const body = `<g transform="rotate(${rotation})">${rotationAnimation}${connectionsMarkup}${motionMarkup}${shapesMarkup}</g>`
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${f(frame.width)}" height="${f(frame.height)}" viewBox="${f(frame.x)} ${f(frame.y)} ${f(frame.width)} ${f(frame.height)}">`
+    + defs.toString()
+    + background
+    + body
+    + '</svg>\n'
+}
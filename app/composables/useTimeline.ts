@@ -0,0 +1,153 @@
+import type { BaseShape, ColorValue, Connection, Keyframe, KeyframeValue, TimelineProperty, TimelineTrack } from '~/types/canvas'
+import { createEasingFunction } from './useEasing'
+import { interpolateColor, interpolateNumber, interpolatePoint } from './useInterpolation'
+
+type Point = { x: number; y: number }
+
+export const TIMELINE_PROPERTIES: Array<{
+  property: TimelineProperty
+  label: string
+  target: 'shape' | 'connection'
+  kind: 'number' | 'color' | 'point'
+}> = [
+  { property: 'x', label: 'X', target: 'shape', kind: 'number' },
+  { property: 'y', label: 'Y', target: 'shape', kind: 'number' },
+  { property: 'size', label: 'Size', target: 'shape', kind: 'number' },
+  { property: 'fill', label: 'Fill', target: 'shape', kind: 'color' },
+  { property: 'opacity', label: 'Opacity', target: 'shape', kind: 'number' },
+  { property: 'stroke', label: 'Color', target: 'connection', kind: 'color' },
+  { property: 'curveOffset', label: 'Curve', target: 'connection', kind: 'point' },
+]
+
+function getPropertyKind(property: TimelineProperty) {
+  return TIMELINE_PROPERTIES.find(option => option.property === property)?.kind ?? 'number'
+}
+
+export function isColorValue(value: KeyframeValue): value is ColorValue {
+  return typeof value === 'string' || (typeof value === 'object' && value !== null && 'stops' in value)
+}
+
+function isPointValue(value: KeyframeValue): value is Point | null {
+  return value === null || (typeof value === 'object' && 'x' in value && 'y' in value)
+}
+
+/**
+ * Value of a property as the shape or connection is drawn, which is what a
+ * new keyframe starts from
+ */
+export function getPropertyValue(target: BaseShape | Connection, property: TimelineProperty): KeyframeValue {
+  if ('type' in target) {
+    if (property === 'x') return target.x
+    if (property === 'y') return target.y
+    if (property === 'fill') return target.fill
+    if (property === 'opacity') return target.opacity ?? 1
+    return 1
+  }
+  return property === 'stroke' ? target.stroke : target.curveOffset
+}
+
+// Blend of two keyframe values; values that don't suit the property hold until the next keyframe
+function interpolateKeyframeValue(property: TimelineProperty, from: KeyframeValue, to: KeyframeValue, t: number): KeyframeValue {
+  const kind = getPropertyKind(property)
+  if (kind === 'number' && typeof from === 'number' && typeof to === 'number') return interpolateNumber(from, to, t)
+  if (kind === 'color' && isColorValue(from) && isColorValue(to)) return interpolateColor(from, to, t)
+  if (kind === 'point' && isPointValue(from) && isPointValue(to)) return interpolatePoint(from, to, t)
+  return t < 1 ? from : to
+}
+
+/**
+ * Value of a track at a loop phase (0-1)
+ * Before the first and after the last keyframe the value holds, and between
+ * two keyframes it follows the earlier one's easing
+ */
+export function getTrackValue(track: TimelineTrack, phase: number): KeyframeValue | undefined {
+  const keyframes = track.keyframes
+  const first = keyframes[0]
+  const last = keyframes[keyframes.length - 1]
+  if (!first || !last) return undefined
+  if (phase <= first.offset) return first.value
+  if (phase >= last.offset) return last.value
+
+  const nextIndex = keyframes.findIndex(keyframe => keyframe.offset > phase)
+  const from = keyframes[nextIndex - 1]!
+  const to = keyframes[nextIndex]!
+  const t = createEasingFunction(from.easing)((phase - from.offset) / (to.offset - from.offset))
+  return interpolateKeyframeValue(track.property, from.value, to.value, t)
+}
+
+function applyShapeValue(shape: BaseShape, property: TimelineProperty, value: KeyframeValue): BaseShape {
+  if (property === 'fill') return isColorValue(value) ? { ...shape, fill: value } : shape
+  if (typeof value !== 'number') return shape
+  if (property === 'x') return { ...shape, x: value }
+  if (property === 'y') return { ...shape, y: value }
+  if (property === 'opacity') return { ...shape, opacity: Math.max(0, Math.min(1, value)) }
+  if (property === 'size') {
+    const scale = Math.max(0, value)
+    return shape.type === 'circle'
+      ? { ...shape, radius: (shape.radius || 20) * scale }
+      : { ...shape, width: (shape.width || 40) * scale, height: (shape.height || 40) * scale }
+  }
+  return shape
+}
+
+function applyConnectionValue(connection: Connection, property: TimelineProperty, value: KeyframeValue): Connection {
+  if (property === 'stroke') return isColorValue(value) ? { ...connection, stroke: value } : connection
+  if (property === 'curveOffset' && isPointValue(value)) return { ...connection, curveOffset: value }
+  return connection
+}
+
+/**
+ * The scene at a loop phase: copies of the shapes and connections with their
+ * keyframed properties applied (untouched ones are passed through as is)
+ * Tracks for shapes or connections that no longer exist are ignored
+ */
+export function applyTimeline(
+  shapes: BaseShape[],
+  connections: Connection[],
+  timeline: TimelineTrack[],
+  phase: number
+): { shapes: BaseShape[]; connections: Connection[] } {
+  if (timeline.length === 0) return { shapes, connections }
+
+  const values = new Map<string, Array<{ property: TimelineProperty; value: KeyframeValue }>>()
+  for (const track of timeline) {
+    const value = getTrackValue(track, phase)
+    if (value === undefined) continue
+    values.set(track.targetId, [...(values.get(track.targetId) ?? []), { property: track.property, value }])
+  }
+
+  return {
+    shapes: shapes.map(shape => (values.get(shape.id) ?? [])
+      .reduce((current, { property, value }) => applyShapeValue(current, property, value), shape)),
+    connections: connections.map(connection => (values.get(connection.id) ?? [])
+      .reduce((current, { property, value }) => applyConnectionValue(current, property, value), connection)),
+  }
+}
+
+export function getTimelineTrack(timeline: TimelineTrack[], targetId: string, property: TimelineProperty): TimelineTrack | undefined {
+  return timeline.find(track => track.targetId === targetId && track.property === property)
+}
+
+/**
+ * Copy of the timeline with a keyframe added, replacing any keyframe at the
+ * same offset of that property
+ */
+export function setKeyframe(timeline: TimelineTrack[], targetId: string, property: TimelineProperty, keyframe: Keyframe): TimelineTrack[] {
+  const track = getTimelineTrack(timeline, targetId, property)
+  if (!track) return [...timeline, { targetId, property, keyframes: [keyframe] }]
+
+  const keyframes = [...track.keyframes.filter(k => k.offset !== keyframe.offset), keyframe]
+    .sort((a, b) => a.offset - b.offset)
+  return timeline.map(t => (t === track ? { ...t, keyframes } : t))
+}
+
+/**
+ * Copy of the timeline without one keyframe; a track left empty is dropped
+ */
+export function removeKeyframe(timeline: TimelineTrack[], targetId: string, property: TimelineProperty, index: number): TimelineTrack[] {
+  return timeline
+    .map(track => (track.targetId === targetId && track.property === property
+      ? { ...track, keyframes: track.keyframes.filter((_, i) => i !== index) }
+      : track))
+    .filter(track => track.keyframes.length > 0)
+}
@@ -20,6 +20,7 @@ export interface BaseShape {
   height?: number
   radius?: number
   fill: ColorValue
+  opacity?: number  // 0-1 (undefined = fully opaque)
 }
 
 export interface ConnectionAnchor {
@@ -55,12 +56,146 @@ export interface SpacingGuide {
 
 export type ToolMode = 'pan' | 'square' | 'triangle' | 'circle' | 'line' | 'curved-line' | 'delete' | 'paint'
 
+export type EasingType = 'linear' | 'ease-in-out' | 'cubic-bezier' | 'steps' | 'spring'
+
+// Timing curve applied to progress around the loop
+export interface EasingConfig {
+  type: EasingType
+  controlPoints: [number, number, number, number]  // x1, y1, x2, y2 for 'cubic-bezier' (like CSS)
+  steps: number  // Jumps per loop for 'steps'
+  bounce: number  // 0-1 overshoot for 'spring'
+}
+
 export interface AnimationConfig {
   enabled: boolean
   speed: number  // 0.25 to 6.0 multiplier
+  loopDuration: number  // Fixed ms per loop (0 = derived from path length and speed)
+  easing: EasingConfig
   animationMode: 'dot' | 'snake'
+  direction: PlaybackDirection
+  transitionMode: TransitionMode
   dotSize: number
   dotColor: string
+  dotCount: number  // Number of chasing dots (1 = single dot)
+  dotSpacing: number  // Loop fraction between neighbouring dots (1 / dotCount spreads them evenly)
+  dotFalloff: number  // 0-1 how much the last dot shrinks and fades relative to the lead dot
   snakeLength: number  // 0-1 representing percentage of total path length
+  snakeWidth: number  // Stroke width in px at the head
+  snakeTaper: number  // 0-1 how much narrower the tail is than the head (1 = comes to a point)
+  snakeFade: number  // 0-1 how much the tail fades out relative to the head
+  snakeCap: SnakeCap
+  snakeColorMode: SnakeColorMode
+  snakeGradient: ColorValue  // Tail-to-head colors when snakeColorMode is 'gradient'
   rotationSpeed: number  // Degrees per second (0 = disabled, positive = clockwise, negative = counter-clockwise)
+  subCircuits: SubCircuitConfig[]  // Timing per group of connected shapes (groups without any use the defaults)
+  shapeEffects: ShapeEffectConfig
+  timeline: TimelineTrack[]  // Keyframed changes to the scene over each loop (empty = shapes and lines stay as drawn)
+  progressMode: ProgressMode
+  progress: number  // 0-1 shown in determinate mode (players can feed in their own value)
+  progressSmoothing: number  // ms to catch up with a new progress value (0 = jump straight to it)
+  states: LoaderStateConfig[]  // One per state name (which one is shown is up to the player, loading by default)
+}
+
+// Named states a loader can be in; loading is how it runs until the work it waits on ends
+export type LoaderStateName = 'loading' | 'success' | 'error'
+
+// What the dot or snake does in a state: keep looping, turn back, run on until
+// the whole circuit is filled, or fade out and stop
+export type LoaderStateMotion = 'loop' | 'reverse' | 'fill' | 'stop'
+
+// A shape or line property that differs from the design as drawn while in a state
+export interface LoaderStateOverride {
+  targetId: string
+  property: TimelineProperty
+  value: KeyframeValue
+}
+
+export interface LoaderStateConfig {
+  name: LoaderStateName
+  motion: LoaderStateMotion
+  overrides: LoaderStateOverride[]
+  duration: number  // ms to morph into this state
+  easing: EasingConfig  // How the morph into this state runs
 }
+
+// What moves the dot or snake: time, looping forever like a spinner, or a
+// progress value, filling the circuit once like a progress bar
+export type ProgressMode = 'loop' | 'determinate'
+
+// How the dot gets from one connection to the next where they meet at a shape
+// - center: curves through the middle of the shape
+// - perimeter: runs along the shape's outline, the shorter way round
+// - jump: skips straight to the next connection
+export type TransitionMode = 'center' | 'perimeter' | 'jump'
+
+// Ends of the snake body: half-disc (round) or cut square (butt)
+export type SnakeCap = 'round' | 'butt'
+
+// Snake color: each connection's stroke under the body, or one gradient from tail to head
+export type SnakeColorMode = 'connection' | 'gradient'
+
+// How each loop runs through the circuit: one way round, or there and back (ping-pong)
+export type PlaybackDirection = 'forward' | 'reverse' | 'alternate' | 'alternate-pause'
+
+export type ShapeEffectType = 'pulse' | 'glow' | 'flash' | 'opacity'
+
+// Start when the dot reaches the shape or once it has left
+export type ShapeEffectTrigger = 'enter' | 'leave'
+
+// How each shape reacts when the dot (or snake head) passes through it
+export interface ShapeEffectConfig {
+  types: ShapeEffectType[]  // Effects to play together (empty = shapes stay static)
+  trigger: ShapeEffectTrigger
+  duration: number  // ms the effect takes to die away
+  easing: EasingConfig  // How it dies away (eased from full strength to none)
+  color: string  // Glow and flash color
+}
+
+// Properties the timeline can keyframe; size scales a shape relative to its drawn size (1 = as drawn)
+export type ShapeKeyframeProperty = 'x' | 'y' | 'size' | 'fill' | 'opacity'
+export type ConnectionKeyframeProperty = 'stroke' | 'curveOffset'
+export type TimelineProperty = ShapeKeyframeProperty | ConnectionKeyframeProperty
+
+// A number, color or curve offset, matching the keyframed property
+export type KeyframeValue = number | ColorValue | { x: number; y: number } | null
+
+export interface Keyframe {
+  offset: number  // 0-1 of the loop
+  value: KeyframeValue
+  easing: EasingConfig  // Timing of the change toward the next keyframe
+}
+
+// Keyframes for one property of one shape or connection
+export interface TimelineTrack {
+  targetId: string  // Shape or connection id, depending on the property
+  property: TimelineProperty
+  keyframes: Keyframe[]  // Sorted by offset
+}
+
+// Separate groups of connected shapes each run their own circuit at the same time
+export interface SubCircuitConfig {
+  connectionId: string  // A connection in the group, so the timing stays with it as lines are drawn or deleted
+  phaseOffset: number  // 0-1 of a lap this circuit runs ahead of its start
+  speedRatio: number  // Whole laps per loop, so every circuit lines up when the loop repeats
+  reversed: boolean  // Run the route backward
+}
+
+// One connection in the animation route, walked from -> to unless reversed
+export interface CircuitStep {
+  connectionId: string
+  reversed: boolean
+}
+
+// Versioned, serializable snapshot of a whole loader design
+// Gradients are stored inline on each shape's fill and connection's stroke
+export interface CanvasDocument {
+  version: number
+  shapes: BaseShape[]
+  connections: Connection[]
+  animation: AnimationConfig
+  circuitOrder: CircuitStep[]  // Route the animation follows (empty = automatic)
+  rotation: number  // Constellation rotation angle in degrees
+  selectedColor: ColorValue  // Active color/gradient in the toolbar
+}
+
+export type ExportFormat = 'svg' | 'html' | 'lottie' | 'gif' | 'webm'
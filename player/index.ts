@@ -0,0 +1,24 @@
+import { defineCustomElement } from 'vue'
+import VueKonva from 'vue-konva'
+import LoaderPlayer from '../app/components/LoaderPlayer.vue'
+
+/**
+ * <loader-player> custom element for pages that don't use Vue
+ *
+ *   <loader-player width="96" height="96" document='{"version":1,...}'></loader-player>
+ *
+ * The document can also be assigned as an object: element.document = savedDocument
+ */
+export const LoaderPlayerElement = defineCustomElement(LoaderPlayer, {
+  configureApp(app) {
+    app.use(VueKonva)
+  },
+})
+
+export function registerLoaderPlayer(tagName: string = 'loader-player') {
+  if (!customElements.get(tagName)) {
+    customElements.define(tagName, LoaderPlayerElement)
+  }
+}
+
+registerLoaderPlayer()
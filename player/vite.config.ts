@@ -0,0 +1,28 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vite'
+import vue from '@vitejs/plugin-vue'
+
+// Standalone build of the <loader-player> custom element (no Nuxt runtime)
+export default defineConfig({
+  plugins: [vue()],
+  // The app's public/ files (favicon, robots.txt) don't belong next to the bundle
+  publicDir: false,
+  resolve: {
+    alias: {
+      '~': fileURLToPath(new URL('../app', import.meta.url)),
+    },
+  },
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: fileURLToPath(new URL('../dist/player', import.meta.url)),
+    emptyOutDir: true,
+    lib: {
+      entry: fileURLToPath(new URL('./index.ts', import.meta.url)),
+      name: 'LoaderPlayer',
+      formats: ['es', 'iife'],
+      fileName: format => `loader-player.${format === 'es' ? 'js' : 'iife.js'}`,
+    },
+  },
+})
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mountSuspended } from '@nuxt/test-utils/runtime'
+import { LoaderPlayer } from '#components'
+import { serializeDocument } from '~/composables/useCanvasDocument'
+import { createDefaultAnimationConfig, useCanvasState } from '~/composables/useCanvasState'
+import type { AnimationConfig, LoaderStateName } from '~/types/canvas'
+
+// Record what the player hands the animation while it still runs for real
+const animationCalls = vi.hoisted(() => [] as Array<{ config: () => AnimationConfig; loaderState: () => LoaderStateName }>)
+vi.mock('~/composables/usePathAnimation', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('~/composables/usePathAnimation')>()
+  return {
+    ...actual,
+    usePathAnimation: (...args: Parameters<typeof actual.usePathAnimation>) => {
+      animationCalls.push({ config: args[2], loaderState: args[4] ?? (() => 'loading') })
+      return actual.usePathAnimation(...args)
+    },
+  }
+})
+
+function defaultDocument() {
+  const canvas = useCanvasState()
+  return serializeDocument({
+    shapes: canvas.shapes.value,
+    connections: canvas.connections.value,
+    animation: { ...createDefaultAnimationConfig(), enabled: true, dotColor: '#22c55e' },
+    circuitOrder: [],
+    rotation: 0,
+    selectedColor: canvas.selectedColor.value,
+  })
+}
+
+// Konva needs a real canvas, so the stage is left out of the render
+function mountPlayer(props: InstanceType<typeof LoaderPlayer>['$props']) {
+  return mountSuspended(LoaderPlayer, { props, global: { stubs: { VStage: true } } })
+}
+
+function lastAnimation() {
+  return animationCalls[animationCalls.length - 1]!
+}
+
+describe('LoaderPlayer', () => {
+  beforeEach(() => {
+    animationCalls.length = 0
+  })
+
+  it('plays a saved document passed as an object or as JSON', async () => {
+    const doc = defaultDocument()
+
+    const fromObject = await mountPlayer({ document: doc })
+    expect(fromObject.emitted('error')).toBeUndefined()
+    expect(lastAnimation().config()).toMatchObject({ enabled: true, dotColor: '#22c55e' })
+
+    const fromJson = await mountPlayer({ document: JSON.stringify(doc) })
+    expect(fromJson.emitted('error')).toBeUndefined()
+    expect(lastAnimation().config()).toMatchObject({ enabled: true, dotColor: '#22c55e' })
+  })
+
+  it('emits an error and plays nothing for a document it cannot read', async () => {
+    const wrapper = await mountPlayer({ document: '{"version":1,' })
+
+    expect(wrapper.emitted('error')).toHaveLength(1)
+    expect(wrapper.emitted('error')![0]![0]).toBeInstanceOf(Error)
+    expect(lastAnimation().config().enabled).toBe(false)
+  })
+
+  it('drives the animation from the progress and state it is given', async () => {
+    const wrapper = await mountPlayer({ document: defaultDocument() })
+    const animation = lastAnimation()
+    expect(animation.config().progressMode).toBe('loop')
+    expect(animation.loaderState()).toBe('loading')
+
+    await wrapper.setProps({ progress: 0.4, state: 'success' })
+    expect(animation.config()).toMatchObject({ progressMode: 'determinate', progress: 0.4 })
+    expect(animation.loaderState()).toBe('success')
+
+    // Unknown names (custom element attributes are unchecked) play as loading
+    await wrapper.setProps({ progress: null, state: 'done' as LoaderStateName })
+    expect(animation.config().progressMode).toBe('loop')
+    expect(animation.loaderState()).toBe('loading')
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CANVAS_DOCUMENT_VERSION,
+  CanvasDocumentError,
+  deserializeDocument,
+  serializeDocument,
+  stringifyDocument,
+} from '../../app/composables/useCanvasDocument'
+import { createDefaultAnimationConfig } from '../../app/composables/useCanvasState'
+import type { BaseShape, Connection } from '../../app/types/canvas'
+
+const shapes: BaseShape[] = [
+  { id: 'a', x: 0, y: 0, type: 'circle', radius: 20, fill: '#ff0000' },
+  {
+    id: 'b',
+    x: 100,
+    y: 0,
+    type: 'square',
+    width: 40,
+    height: 40,
+    fill: { type: 'linear', angle: 90, stops: [{ offset: 0, color: '#000000' }, { offset: 1, color: '#ffffff' }] },
+  },
+]
+
+const connections: Connection[] = [
+  {
+    id: 'c',
+    fromShapeId: 'a',
+    toShapeId: 'b',
+    fromAnchor: { position: 0.25 },
+    toAnchor: { position: 0.75 },
+    stroke: '#00ff00',
+    curveOffset: { x: 0, y: 20 },
+  },
+]
+
+describe('canvas document', () => {
+  it('round-trips the whole design', () => {
+    const doc = serializeDocument({
+      shapes,
+      connections,
+      animation: { ...createDefaultAnimationConfig(), animationMode: 'snake', rotationSpeed: -45 },
+      circuitOrder: [{ connectionId: 'c', reversed: true }],
+      rotation: 370,
+      selectedColor: '#123456',
+    })
+
+    const restored = deserializeDocument(stringifyDocument(doc))
+
+    expect(restored.version).toBe(CANVAS_DOCUMENT_VERSION)
+    expect(restored.shapes).toEqual(shapes)
+    expect(restored.connections).toEqual(connections)
+    expect(restored.animation.animationMode).toBe('snake')
+    expect(restored.animation.rotationSpeed).toBe(-45)
+    expect(restored.circuitOrder).toEqual([{ connectionId: 'c', reversed: true }])
+    expect(restored.rotation).toBe(10)
+    expect(restored.selectedColor).toBe('#123456')
+  })
+
+  it('fills in missing animation settings and drops dangling connections', () => {
+    const restored = deserializeDocument({
+      version: 1,
+      shapes: [shapes[0]],
+      connections,
+      animation: { speed: 2, dotSize: 'big' },
+    })
+
+    expect(restored.connections).toEqual([])
+    expect(restored.circuitOrder).toEqual([])
+    expect(restored.animation.speed).toBe(2)
+    expect(restored.animation.dotSize).toBe(createDefaultAnimationConfig().dotSize)
+  })
+
+  it('keeps the dot trail within the ranges the toolbar offers', () => {
+    const restored = deserializeDocument('{"version":1,"shapes":[],"connections":[],"animation":{"dotCount":1e7,"dotSpacing":1e400,"dotFalloff":-3}}')
+
+    expect(restored.animation.dotCount).toBe(8)
+    expect(restored.animation.dotSpacing).toBe(1 / 8)
+    expect(restored.animation.dotFalloff).toBe(0)
+  })
+
+  it('keeps timing, size and progress settings within the values they can take', () => {
+    const restored = deserializeDocument({
+      version: 1,
+      shapes: [],
+      connections: [],
+      animation: {
+        speed: -1,
+        loopDuration: -500,
+        dotSize: 0,
+        snakeLength: 3,
+        snakeWidth: -5,
+        snakeTaper: -0.5,
+        snakeFade: 2,
+        rotationSpeed: Infinity,
+        progress: 1.5,
+        progressSmoothing: -100,
+      },
+    })
+    const defaults = createDefaultAnimationConfig()
+
+    expect(restored.animation).toMatchObject({
+      speed: defaults.speed,
+      loopDuration: 0,
+      dotSize: defaults.dotSize,
+      snakeLength: 1,
+      snakeWidth: defaults.snakeWidth,
+      snakeTaper: 0,
+      snakeFade: 1,
+      rotationSpeed: 0,
+      progress: 1,
+      progressSmoothing: 0,
+    })
+    expect(deserializeDocument('{"version":1,"shapes":[],"connections":[],"animation":{"loopDuration":1e400}}').animation.loopDuration).toBe(0)
+  })
+
+  it('keys circuit timing to connections, including saves that listed it by circuit', () => {
+    const restored = deserializeDocument({
+      version: 2,
+      shapes,
+      connections,
+      circuitOrder: [],
+      animation: {
+        subCircuits: [
+          { phaseOffset: 1.25, speedRatio: 1e9, reversed: true },
+          { connectionId: 'gone', phaseOffset: 0, speedRatio: 2, reversed: false },
+        ],
+      },
+    })
+
+    expect(restored.animation.subCircuits).toEqual([{ connectionId: 'c', phaseOffset: 0.25, speedRatio: 4, reversed: true }])
+  })
+
+  it('rejects invalid input and documents from newer versions', () => {
+    expect(() => deserializeDocument('{not json')).toThrow(CanvasDocumentError)
+    expect(() => deserializeDocument({ shapes: [], connections: [] })).toThrow(CanvasDocumentError)
+    expect(() => deserializeDocument({ version: CANVAS_DOCUMENT_VERSION + 1, shapes: [], connections: [] }))
+      .toThrow(/newer version/)
+  })
+})
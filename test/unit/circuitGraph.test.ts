@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeCircuitGraph, countCircuitJumps, planEulerianOrder } from '../../app/composables/useCircuitGraph'
+import type { Connection } from '../../app/types/canvas'
+
+function connection(id: string, fromShapeId: string, toShapeId: string): Connection {
+  return {
+    id,
+    fromShapeId,
+    toShapeId,
+    fromAnchor: { position: 0.25 },
+    toAnchor: { position: 0.75 },
+    stroke: '#ffffff',
+    curveOffset: null,
+  }
+}
+
+describe('circuit graph', () => {
+  it('walks a bow tie in one loop where the greedy route got stuck', () => {
+    // Two triangles sharing c; greedy a->b->c->a strands the d-e-c triangle
+    const connections = [
+      connection('ab', 'a', 'b'),
+      connection('bc', 'b', 'c'),
+      connection('ca', 'c', 'a'),
+      connection('cd', 'c', 'd'),
+      connection('de', 'd', 'e'),
+      connection('ec', 'e', 'c'),
+    ]
+    const order = planEulerianOrder(connections)
+
+    expect(order).toHaveLength(6)
+    expect(countCircuitJumps(order, connections)).toBe(0)
+    expect(analyzeCircuitGraph(connections)).toEqual({
+      walk: 'circuit',
+      components: [['a', 'b', 'c', 'd', 'e']],
+      oddShapeIds: [],
+      minimumJumps: 0,
+    })
+  })
+
+  it('starts an open walk at an odd shape', () => {
+    // A triangle with a tail: only b and d have odd degree
+    const connections = [
+      connection('ab', 'a', 'b'),
+      connection('bc', 'b', 'c'),
+      connection('ca', 'c', 'a'),
+      connection('db', 'd', 'b'),
+    ]
+    const order = planEulerianOrder(connections)
+
+    expect(order[0]).toEqual({ connectionId: 'ab', reversed: true })
+    expect(countCircuitJumps(order, connections)).toBe(0)
+    expect(analyzeCircuitGraph(connections).walk).toBe('path')
+  })
+
+  it('reports odd shapes and separate groups, and only counts jumps within a group', () => {
+    // A star (four odd tips and an even centre) plus a separate line
+    const connections = [
+      connection('ha', 'hub', 'a'),
+      connection('hb', 'hub', 'b'),
+      connection('hc', 'hub', 'c'),
+      connection('hd', 'hub', 'd'),
+      connection('xy', 'x', 'y'),
+    ]
+    const analysis = analyzeCircuitGraph(connections)
+
+    expect(analysis.walk).toBe('broken')
+    expect(analysis.components).toEqual([['hub', 'a', 'b', 'c', 'd'], ['x', 'y']])
+    expect(analysis.oddShapeIds).toEqual(['a', 'b', 'c', 'd', 'x', 'y'])
+    // The star needs two walks; the line runs on its own
+    expect(analysis.minimumJumps).toBe(1)
+    expect(countCircuitJumps(planEulerianOrder(connections), connections)).toBe(1)
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { getAutomaticCircuitOrder, moveCircuitStep, resolveCircuitOrder } from '../../app/composables/useCircuitOrder'
+import { buildCircuit, getPointOnCircuit } from '../../app/composables/usePathAnimation'
+import type { BaseShape, Connection } from '../../app/types/canvas'
+
+const shapes: BaseShape[] = [
+  { id: 'a', x: 0, y: 0, type: 'circle', radius: 20, fill: '#ffffff' },
+  { id: 'b', x: 200, y: 0, type: 'circle', radius: 20, fill: '#ffffff' },
+  { id: 'c', x: 100, y: 150, type: 'circle', radius: 20, fill: '#ffffff' },
+]
+
+function connection(id: string, fromShapeId: string, toShapeId: string): Connection {
+  return {
+    id,
+    fromShapeId,
+    toShapeId,
+    fromAnchor: { position: 0.25 },
+    toAnchor: { position: 0.75 },
+    stroke: '#ffffff',
+    curveOffset: null,
+  }
+}
+
+// Drawn out of order: a->b, a->c, then b->c
+const connections = [connection('ab', 'a', 'b'), connection('ac', 'a', 'c'), connection('bc', 'b', 'c')]
+
+describe('circuit order', () => {
+  it('follows shared shapes automatically, reversing connections where needed', () => {
+    expect(getAutomaticCircuitOrder(connections)).toEqual([
+      { connectionId: 'ab', reversed: false },
+      { connectionId: 'bc', reversed: false },
+      { connectionId: 'ac', reversed: true },
+    ])
+  })
+
+  it('drops deleted connections and appends new ones to a stored order', () => {
+    const order = [{ connectionId: 'bc', reversed: true }, { connectionId: 'gone', reversed: false }]
+
+    expect(resolveCircuitOrder(order, connections)).toEqual([
+      { connectionId: 'bc', reversed: true },
+      { connectionId: 'ab', reversed: false },
+      { connectionId: 'ac', reversed: false },
+    ])
+    expect(moveCircuitStep(resolveCircuitOrder(order, connections), 2, 0).map(s => s.connectionId))
+      .toEqual(['ac', 'bc', 'ab'])
+  })
+
+  it('builds the circuit in the stored order and direction', () => {
+    const circuit = buildCircuit(connections, shapes, [
+      { connectionId: 'ac', reversed: false },
+      { connectionId: 'bc', reversed: true },
+      { connectionId: 'ab', reversed: true },
+    ])
+    const route = circuit
+      .filter(segment => segment.type === 'connection')
+      .map(segment => `${segment.connection!.id}${segment.reversed ? '<' : '>'}`)
+
+    expect(route).toEqual(['ac>', 'bc<', 'ab<'])
+    // Only b is entered and left through different anchors, so it gets the one transition
+    expect(circuit.filter(segment => segment.type === 'transition').map(segment => segment.shape!.id)).toEqual(['b'])
+  })
+
+  it('walks the transition along the shape edge or skips it', () => {
+    const order = [
+      { connectionId: 'ac', reversed: false },
+      { connectionId: 'bc', reversed: true },
+      { connectionId: 'ab', reversed: true },
+    ]
+    const [through] = buildCircuit(connections, shapes, order).filter(segment => segment.type === 'transition')
+    const [around] = buildCircuit(connections, shapes, order, 'perimeter').filter(segment => segment.type === 'transition')
+    const circuit = buildCircuit(connections, shapes, order, 'perimeter')
+    const middle = getPointOnCircuit(circuit, shapes, (around!.startDistance + around!.endDistance) / 2)!
+
+    // b is left on the opposite side it was entered: straight across, or half way round
+    expect(through!.endDistance - through!.startDistance).toBeCloseTo(40, 0)
+    expect(around!.endDistance - around!.startDistance).toBeCloseTo(Math.PI * 20, 0)
+    expect(Math.hypot(middle.x - 200, middle.y)).toBeCloseTo(20)
+    expect(buildCircuit(connections, shapes, order, 'jump').some(segment => segment.type === 'transition')).toBe(false)
+  })
+})
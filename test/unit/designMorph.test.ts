@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { getConnectionGeometry } from '../../app/composables/useCanvasState'
+import { matchShapes, morphDesigns } from '../../app/composables/useDesignMorph'
+import type { BaseShape, Connection } from '../../app/types/canvas'
+
+function line(id: string, fromShapeId: string, toShapeId: string, fromAnchor = 0.25): Connection {
+  return {
+    id,
+    fromShapeId,
+    toShapeId,
+    fromAnchor: { position: fromAnchor },
+    toAnchor: { position: 0.75 },
+    stroke: '#ffffff',
+    curveOffset: null,
+  }
+}
+
+const from = {
+  rotation: 0,
+  shapes: [
+    { id: 'a', x: 0, y: 0, type: 'circle', radius: 20, fill: '#ff0000' },
+    { id: 'b', x: 200, y: 0, type: 'circle', radius: 20, fill: '#0000ff' },
+    { id: 'gone', x: 100, y: 100, type: 'square', width: 40, height: 40, fill: '#ffffff' },
+  ] as BaseShape[],
+  connections: [line('ab', 'a', 'b'), line('b-gone', 'b', 'gone')],
+}
+
+const to = {
+  rotation: 90,
+  shapes: [
+    { id: 'a', x: 0, y: 100, type: 'circle', radius: 40, fill: '#00ff00' },
+    { id: 'other', x: 300, y: 0, type: 'circle', radius: 20, fill: '#0000ff' },
+    { id: 'new', x: 0, y: 0, type: 'triangle', width: 40, height: 40, fill: '#ffffff' },
+  ] as BaseShape[],
+  connections: [line('a-other', 'a', 'other', 0.05)],
+}
+
+describe('design morph', () => {
+  it('matches shapes by id, then by order among shapes of the same type', () => {
+    expect([...matchShapes(from.shapes, to.shapes)]).toEqual([['a', 'a'], ['b', 'other']])
+  })
+
+  it('tweens matched shapes and lines and cross-fades the rest', () => {
+    const scene = morphDesigns(from, to, 0.5)
+    const shape = (id: string) => scene.shapes.find(s => s.id === id)!
+
+    expect(shape('a')).toMatchObject({ x: 0, y: 50, radius: 30 })
+    expect(shape('other').x).toBeCloseTo(250)
+    expect(shape('leaving:gone').opacity).toBeCloseTo(0.5)
+    expect(shape('new').opacity).toBeCloseTo(0.5)
+    expect(scene.rotation).toBeCloseTo(45)
+
+    // The line joining the same shapes is kept, its anchor sliding the short way round
+    expect(scene.connections).toHaveLength(1)
+    expect(scene.connections[0]!.fromAnchor.position).toBeCloseTo(0.15)
+    expect(scene.leavingConnections.map(c => [c.fromShapeId, c.toShapeId, c.opacity])).toEqual([['other', 'leaving:gone', 0.5]])
+  })
+
+  it('keeps line ends on the shapes as they morph', () => {
+    const scene = morphDesigns(from, to, 0.5)
+    const geometry = getConnectionGeometry(scene.connections[0]!, scene.shapes)!
+    const a = scene.shapes.find(s => s.id === 'a')!
+    const anchor = 0.15 * Math.PI * 2 - Math.PI / 2
+
+    expect(geometry.from.x).toBeCloseTo(a.x + 30 * Math.cos(anchor))
+    expect(geometry.from.y).toBeCloseTo(a.y + 30 * Math.sin(anchor))
+  })
+})
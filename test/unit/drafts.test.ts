@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { nextTick } from 'vue'
+import { serializeDocument, stringifyDocument, useCanvasDocument } from '../../app/composables/useCanvasDocument'
+import { createDefaultAnimationConfig, useCanvasState } from '../../app/composables/useCanvasState'
+import { createDraftStore, createMemoryStorage, useDrafts } from '../../app/composables/useDrafts'
+import type { DraftStorage } from '../../app/composables/useDrafts'
+
+// The shipped in-memory storage, counting the keys it holds
+function createCountingStorage(): DraftStorage & { size: () => number } {
+  const storage = createMemoryStorage()
+  const keys = new Set<string>()
+  return {
+    getItem: key => storage.getItem(key),
+    setItem: (key, value) => {
+      storage.setItem(key, value)
+      keys.add(key)
+    },
+    removeItem: (key) => {
+      storage.removeItem(key)
+      keys.delete(key)
+    },
+    size: () => keys.size,
+  }
+}
+
+function defaultDocumentJson() {
+  const canvas = useCanvasState()
+  return stringifyDocument(serializeDocument({
+    shapes: canvas.shapes.value,
+    connections: canvas.connections.value,
+    animation: createDefaultAnimationConfig(),
+    circuitOrder: [],
+    rotation: 0,
+    selectedColor: canvas.selectedColor.value,
+  }))
+}
+
+describe('createDraftStore', () => {
+  it('creates, renames and reloads drafts', () => {
+    const store = createDraftStore(createMemoryStorage())
+    const draft = store.create(defaultDocumentJson())
+    store.rename(draft.id, 'Spinner')
+
+    expect(draft.name).toBe('Untitled loader 1')
+    expect(store.list()).toEqual([{ ...draft, name: 'Spinner' }])
+    expect(store.load(draft.id).shapes).toHaveLength(3)
+  })
+
+  it('keeps the name when saving and duplicates under a new id', () => {
+    const store = createDraftStore(createMemoryStorage())
+    const draft = store.create(defaultDocumentJson(), 'Orbit')
+    store.save(draft.id, defaultDocumentJson())
+    const copy = store.duplicate(draft.id)!
+
+    expect(copy.id).not.toBe(draft.id)
+    expect(copy.name).toBe('Orbit copy')
+    expect(store.list().map(d => d.name).sort()).toEqual(['Orbit', 'Orbit copy'])
+  })
+
+  it('removes the document, its index entry and the session pointer', () => {
+    const storage = createCountingStorage()
+    const store = createDraftStore(storage)
+    const draft = store.create(defaultDocumentJson())
+    store.setLastSessionId(draft.id)
+    store.remove(draft.id)
+
+    expect(store.list()).toEqual([])
+    expect(store.getLastSessionId()).toBeNull()
+    expect(() => store.load(draft.id)).toThrow()
+    expect(storage.size()).toBe(1)
+  })
+})
+
+describe('useDrafts', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps drafts in memory when localStorage is disabled', async () => {
+    vi.stubGlobal('window', {
+      get localStorage(): Storage {
+        throw new DOMException('The operation is insecure.', 'SecurityError')
+      },
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    })
+    const canvas = useCanvasState()
+    const drafts = useDrafts(canvas, useCanvasDocument(canvas))
+
+    canvas.selectedColor.value = '#123456'
+    await nextTick()
+    drafts.flush()
+
+    expect(drafts.drafts.value).toHaveLength(1)
+    expect(drafts.currentDraftId.value).toBe(drafts.drafts.value[0]!.id)
+  })
+})
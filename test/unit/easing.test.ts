@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { deserializeDocument } from '../../app/composables/useCanvasDocument'
+import { createDefaultAnimationConfig, useCanvasState } from '../../app/composables/useCanvasState'
+import { createDefaultEasing, createEasingFunction, cubicBezier } from '../../app/composables/useEasing'
+import { sampleAnimation } from '../../app/composables/usePathAnimation'
+
+describe('easing', () => {
+  it('solves cubic-bezier curves like CSS', () => {
+    const ease = cubicBezier(0.42, 0, 0.58, 1)
+
+    expect(ease(0)).toBe(0)
+    expect(ease(0.5)).toBeCloseTo(0.5)
+    expect(ease(0.25)).toBeCloseTo(0.1291, 3)
+    expect(ease(1)).toBe(1)
+  })
+
+  it('holds steps and lets the spring overshoot before settling on 1', () => {
+    const steps = createEasingFunction({ ...createDefaultEasing(), type: 'steps', steps: 4 })
+    const spring = createEasingFunction({ ...createDefaultEasing(), type: 'spring', bounce: 1 })
+    const springValues = Array.from({ length: 50 }, (_, i) => spring(i / 50))
+
+    expect([0.1, 0.3, 0.6, 0.99, 1].map(steps)).toEqual([0, 0.25, 0.5, 0.75, 1])
+    expect(Math.max(...springValues)).toBeGreaterThan(1.1)
+    expect(spring(1)).toBe(1)
+  })
+
+  it('keeps loop duration fixed and eases progress around the circuit', () => {
+    const canvas = useCanvasState()
+    const config = {
+      ...createDefaultAnimationConfig(),
+      loopDuration: 1500,
+      easing: { ...createDefaultEasing(), type: 'ease-in-out' as const },
+    }
+
+    const frame = sampleAnimation(canvas.shapes.value, canvas.connections.value, config, { time: 375 })
+
+    expect(frame.duration).toBe(1500)
+    expect(frame.phase).toBeCloseTo(0.25)
+    expect(frame.progress).toBeCloseTo(0.1291, 3)
+  })
+
+  it('falls back to the default easing when a stored curve is invalid', () => {
+    const restored = deserializeDocument({
+      version: 1,
+      shapes: [],
+      connections: [],
+      animation: { easing: { type: 'wobble', controlPoints: [2, 0, 'x', 1], steps: 6 } },
+    })
+
+    expect(restored.animation.easing).toEqual({ ...createDefaultEasing(), steps: 6 })
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { buildPalette, encodeGif, lzwEncode } from '../../app/composables/useGifEncoder'
+
+// Reference GIF LZW decoder, enough to check the encoder round-trips
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let table: number[][] = []
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i])
+    codeSize = minCodeSize + 1
+  }
+  const output: number[] = []
+  let previous: number[] | null = null
+  let bitPosition = 0
+
+  reset()
+  while (bitPosition + codeSize <= data.length * 8) {
+    let code = 0
+    for (let i = 0; i < codeSize; i++, bitPosition++) {
+      code |= ((data[bitPosition >> 3]! >> (bitPosition & 7)) & 1) << i
+    }
+    if (code === clearCode) {
+      reset()
+      previous = null
+      continue
+    }
+    if (code === endCode) break
+
+    const entry: number[] = code < table.length ? table[code]! : [...previous!, previous![0]!]
+    output.push(...entry)
+    if (previous) table.push([...previous, entry[0]!])
+    previous = entry
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++
+  }
+  return output
+}
+
+function solidFrame(width: number, height: number, rgba: [number, number, number, number]): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i)
+  return data
+}
+
+describe('gif encoder', () => {
+  it('round-trips LZW data across table resets', () => {
+    const indices = new Uint8Array(20000)
+    let seed = 7
+    for (let i = 0; i < indices.length; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff
+      indices[i] = (seed >> 16) % 16
+    }
+
+    expect(lzwDecode(lzwEncode(indices, 4), 4)).toEqual(Array.from(indices))
+  })
+
+  it('quantizes to the requested number of colors', () => {
+    const data = new Uint8ClampedArray(64 * 4)
+    for (let i = 0; i < 64; i++) data.set([i * 4, 255 - i * 4, 128, 255], i * 4)
+
+    const palette = buildPalette([data], 8)
+
+    expect(palette.length).toBe(8 * 3)
+  })
+
+  it('writes a looping GIF89a with one image per frame', () => {
+    const gif = encodeGif(
+      [
+        { data: solidFrame(4, 3, [255, 0, 0, 255]), delay: 1000 / 24 },
+        { data: solidFrame(4, 3, [0, 0, 255, 0]), delay: 1000 / 24 },
+      ],
+      { width: 4, height: 3, transparent: true }
+    )
+    const text = new TextDecoder('latin1').decode(gif)
+
+    expect(text.startsWith('GIF89a')).toBe(true)
+    expect(gif[6]).toBe(4)
+    expect(gif[8]).toBe(3)
+    expect(text).toContain('NETSCAPE2.0')
+    expect(gif.filter(byte => byte === 0x2c).length).toBeGreaterThanOrEqual(2)
+    expect(gif[gif.length - 1]).toBe(0x3b)
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { useCanvasState } from '../../app/composables/useCanvasState'
+import { useHistory } from '../../app/composables/useHistory'
+
+describe('useHistory', () => {
+  it('undoes and redoes recorded changes', () => {
+    const state = { value: 1 }
+    const history = useHistory({
+      capture: () => ({ ...state }),
+      restore: (snapshot) => { state.value = snapshot.value },
+    })
+
+    history.record('set 2')
+    state.value = 2
+    history.record('set 3')
+    state.value = 3
+
+    history.undo()
+    expect(state.value).toBe(2)
+    history.undo()
+    expect(state.value).toBe(1)
+    expect(history.canUndo.value).toBe(false)
+
+    history.redo()
+    history.redo()
+    expect(state.value).toBe(3)
+    expect(history.canRedo.value).toBe(false)
+  })
+
+  it('coalesces a gesture into a single entry and respects the limit', () => {
+    const state = { value: 0 }
+    const history = useHistory({
+      capture: () => ({ ...state }),
+      restore: (snapshot) => { state.value = snapshot.value },
+      limit: 2,
+    })
+
+    history.beginGesture('drag')
+    for (let i = 1; i <= 10; i++) {
+      history.record('move')
+      state.value = i
+    }
+    history.endGesture()
+
+    history.undo()
+    expect(state.value).toBe(0)
+
+    history.redo()
+    for (let i = 0; i < 3; i++) {
+      history.record(`step ${i}`)
+      state.value += 100
+    }
+    history.undo()
+    history.undo()
+    history.undo()
+    expect(state.value).toBe(110)
+  })
+})
+
+describe('useCanvasState history', () => {
+  it('reverts shape and connection mutations', () => {
+    const canvas = useCanvasState()
+    const initialShapes = canvas.shapes.value.length
+    const initialConnections = canvas.connections.value.length
+
+    canvas.addShape('circle', 10, 10)
+    canvas.removeShape('shape-default-1')
+    expect(canvas.connections.value.length).toBe(initialConnections - 2)
+
+    canvas.undo()
+    expect(canvas.shapes.value.length).toBe(initialShapes + 1)
+    expect(canvas.connections.value.length).toBe(initialConnections)
+
+    canvas.undo()
+    expect(canvas.shapes.value.length).toBe(initialShapes)
+    expect(canvas.canUndo.value).toBe(false)
+  })
+
+  it('does not undo play/pause', () => {
+    const canvas = useCanvasState()
+    canvas.updateAnimationConfig({ speed: 3 })
+    canvas.updateAnimationConfig({ enabled: true })
+
+    canvas.undo()
+    expect(canvas.animationConfig.value.speed).toBe(1)
+    expect(canvas.animationConfig.value.enabled).toBe(true)
+  })
+})
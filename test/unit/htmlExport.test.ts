@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { serializeDocument } from '../../app/composables/useCanvasDocument'
+import { createDefaultAnimationConfig, useCanvasState } from '../../app/composables/useCanvasState'
+import { exportHtmlCss, exportHtmlSnippet } from '../../app/composables/useHtmlExport'
+
+function defaultDocument(animation: Partial<ReturnType<typeof createDefaultAnimationConfig>> = {}) {
+  const canvas = useCanvasState()
+  return serializeDocument({
+    shapes: canvas.shapes.value,
+    connections: canvas.connections.value,
+    animation: { ...createDefaultAnimationConfig(), loopDuration: 2000, ...animation },
+    circuitOrder: [],
+    rotation: 0,
+    selectedColor: canvas.selectedColor.value,
+  })
+}
+
+describe('exportHtmlCss', () => {
+  it('moves the dot along the circuit with offset-path keyframes', () => {
+    const { html, css } = exportHtmlCss(defaultDocument(), { samples: 4 })
+
+    expect(html.match(/class="loader-dot loader-circuit-1"/g)).toHaveLength(1)
+    expect(html.match(/class="loader-shape loader-shape-\d"/g)).toHaveLength(3)
+    expect(css).toMatch(/\.loader-circuit-1\{offset-path:path\('M [\d. L]+'\);animation-name:loader-move-1;animation-duration:2s;/)
+    expect(css).toContain('@keyframes loader-move-1{0%{offset-distance:0%}25%{offset-distance:30.22%}50%{offset-distance:50%}'
+      + '75%{offset-distance:69.78%}100%{offset-distance:100%}}')
+    expect(css).not.toContain('loader-spin')
+    expect(css).not.toContain('-0s')
+  })
+
+  it('runs trailing dots on the lead dot\'s keyframes, further behind', () => {
+    const { html, css } = exportHtmlCss(defaultDocument({ dotCount: 3 }), { samples: 4 })
+
+    expect(html).toContain('<div class="loader-dot loader-circuit-1 loader-dot-3"></div>')
+    expect(css).toContain('.loader-circuit-1.loader-dot-2{animation-delay:-1.84s}')
+    expect(css).toContain('.loader-circuit-1.loader-dot-3{animation-delay:-1.68s}')
+    expect(css.match(/@keyframes loader-move-/g)).toHaveLength(1)
+  })
+
+  it('draws the snake as a moving dash, split into bands when it tapers', () => {
+    const plain = exportHtmlCss(defaultDocument({ animationMode: 'snake' }), { samples: 4 })
+
+    expect(plain.html).not.toContain('loader-dot')
+    expect(plain.html.match(/class="loader-snake loader-snake-1"/g)).toHaveLength(1)
+    expect(plain.css).toMatch(/\.loader-snake-1\{stroke-dasharray:[\d.]+px [\d.]+px;animation:loader-snake-1 2s linear 0s infinite\}/)
+    expect(plain.css).toMatch(/@keyframes loader-snake-1\{0%\{stroke-dashoffset:[\d.]+px\}/)
+
+    const tapered = exportHtmlCss(defaultDocument({
+      animationMode: 'snake',
+      snakeTaper: 0.5,
+      snakeColorMode: 'gradient',
+      snakeCap: 'round',
+    }), { samples: 4 })
+    const caps = [...tapered.html.matchAll(/class="loader-snake loader-snake-1-\d"[^>]* stroke-linecap="(\w+)"/g)].map(match => match[1])
+
+    expect(caps).toEqual(['round', 'butt', 'butt', 'butt', 'butt', 'butt', 'butt', 'round'])
+    expect(tapered.css.match(/@keyframes loader-snake-1-\d/g)).toHaveLength(8)
+    // Each band's dash starts one band further back along the snake
+    const starts = [...tapered.css.matchAll(/@keyframes loader-snake-1-\d\{0%\{stroke-dashoffset:([\d.]+)px\}/g)].map(match => Number(match[1]))
+    expect(starts).toEqual([...starts].sort((a, b) => b - a))
+  })
+
+  it('spins the stage, or swings it back and forth once per loop for ping-pong', () => {
+    const spinning = exportHtmlCss(defaultDocument({ rotationSpeed: -90 }), { samples: 4 }).css
+
+    expect(spinning).toContain('animation:loader-spin 4s linear infinite;')
+    expect(spinning).toContain('@keyframes loader-spin{from{transform:rotate(0deg)}to{transform:rotate(-360deg)}}')
+
+    const swinging = exportHtmlCss(defaultDocument({ rotationSpeed: 90, direction: 'alternate' }), { samples: 4 }).css
+
+    expect(swinging).toContain('animation:loader-spin 2s linear infinite;')
+    expect(swinging).toContain('@keyframes loader-spin{0%{transform:rotate(0deg)}50%{transform:rotate(90deg)}100%{transform:rotate(0deg)}}')
+  })
+
+  it('moves a dot round a separate group of shapes with its own timing', () => {
+    const doc = defaultDocument({
+      subCircuits: [{ connectionId: 'ring', phaseOffset: 0.25, speedRatio: 2, reversed: false }],
+    })
+    doc.shapes.push(
+      { id: 'ring-a', x: 400, y: 400, type: 'circle', radius: 20, fill: '#ffffff' },
+      { id: 'ring-b', x: 500, y: 400, type: 'circle', radius: 20, fill: '#ffffff' }
+    )
+    doc.connections.push({
+      id: 'ring',
+      fromShapeId: 'ring-a',
+      toShapeId: 'ring-b',
+      fromAnchor: { position: 0.25 },
+      toAnchor: { position: 0.75 },
+      stroke: '#ffffff',
+      curveOffset: null,
+    })
+
+    const { html, css } = exportHtmlCss(doc, { samples: 4 })
+
+    expect(html).toContain('<div class="loader-dot loader-circuit-2"></div>')
+    expect(css).toMatch(/\.loader-circuit-1\{[^}]*animation-duration:2s;animation-delay:0s\}/)
+    expect(css).toMatch(/\.loader-circuit-2\{[^}]*animation-name:loader-move-2;animation-duration:1s;animation-delay:-0.25s\}/)
+    expect(css).toContain('@keyframes loader-move-2{')
+  })
+})
+
+describe('exportHtmlSnippet', () => {
+  it('inlines the stylesheet ahead of the markup', () => {
+    const doc = defaultDocument()
+    const { html, css } = exportHtmlCss(doc, { className: 'spinner' })
+
+    expect(html.startsWith('<div class="spinner"><div class="spinner-stage">')).toBe(true)
+    expect(exportHtmlSnippet(doc, { className: 'spinner' })).toBe(`<style>\n${css}\n</style>\n${html}\n`)
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { deserializeDocument, serializeDocument } from '../../app/composables/useCanvasDocument'
+import { createDefaultAnimationConfig, createDefaultLoaderStates } from '../../app/composables/useCanvasState'
+import { applyLoaderState, blendScenes, getLoaderState, getStateMotionConfig, updateLoaderState } from '../../app/composables/useLoaderStates'
+import type { BaseShape, CanvasDocument, Connection } from '../../app/types/canvas'
+
+function design(): { shapes: BaseShape[]; connections: Connection[] } {
+  return {
+    shapes: [
+      { id: 'a', x: 0, y: 0, type: 'circle', radius: 20, fill: '#ff0000' },
+      { id: 'b', x: 200, y: 0, type: 'square', width: 40, height: 40, fill: '#0000ff' },
+    ],
+    connections: [{
+      id: 'c',
+      fromShapeId: 'a',
+      toShapeId: 'b',
+      fromAnchor: { position: 0.25 },
+      toAnchor: { position: 0.75 },
+      stroke: '#ffffff',
+      curveOffset: null,
+    }],
+  }
+}
+
+function successState() {
+  const states = updateLoaderState(createDefaultLoaderStates(), 'success', {
+    overrides: [
+      { targetId: 'a', property: 'fill', value: '#00ff00' },
+      { targetId: 'b', property: 'size', value: 2 },
+    ],
+  })
+  return { ...createDefaultAnimationConfig(), states }
+}
+
+describe('loader states', () => {
+  it('applies a state\'s overrides to copies of the scene', () => {
+    const { shapes, connections } = design()
+    const loading = applyLoaderState(shapes, connections, getLoaderState(successState(), 'loading'))
+    const success = applyLoaderState(shapes, connections, getLoaderState(successState(), 'success'))
+
+    expect(loading.shapes).toBe(shapes)
+    expect(success.shapes[0]!.fill).toBe('#00ff00')
+    expect(success.shapes[1]!.width).toBe(80)
+    expect(shapes[0]!.fill).toBe('#ff0000')
+  })
+
+  it('morphs sizes and recolors gradients between two states', () => {
+    const { shapes, connections } = design()
+    const gradient = {
+      type: 'linear' as const,
+      angle: 0,
+      stops: [{ offset: 0, color: '#000000' }, { offset: 1, color: '#ffffff' }],
+    }
+    const to = applyLoaderState(shapes, connections, {
+      ...createDefaultLoaderStates()[1]!,
+      overrides: [
+        { targetId: 'a', property: 'fill', value: gradient },
+        { targetId: 'a', property: 'size', value: 2 },
+      ],
+    })
+    const halfway = blendScenes({ shapes, connections }, to, 0.5)
+
+    expect(halfway.shapes[0]!.radius).toBeCloseTo(30)
+    expect(halfway.shapes[0]!.fill).toEqual({
+      type: 'linear',
+      angle: 0,
+      stops: [{ offset: 0, color: '#800000' }, { offset: 1, color: '#ff8080' }],
+    })
+    expect(blendScenes({ shapes, connections }, to, 1)).toBe(to)
+  })
+
+  it('turns the circuit back or fills it depending on the state', () => {
+    const config = createDefaultAnimationConfig()
+
+    expect(getStateMotionConfig(config, 'reverse').direction).toBe('reverse')
+    expect(getStateMotionConfig({ ...config, direction: 'reverse' }, 'reverse').direction).toBe('forward')
+    expect(getStateMotionConfig(config, 'fill')).toMatchObject({ progressMode: 'determinate', progress: 1 })
+    expect(getStateMotionConfig(config, 'stop')).toBe(config)
+  })
+
+  it('keeps states through a save and drops overrides for deleted shapes', () => {
+    const { shapes, connections } = design()
+    const animation = successState()
+    animation.states[1]!.overrides.push({ targetId: 'gone', property: 'x', value: 10 })
+    const doc: CanvasDocument = {
+      version: 1,
+      shapes,
+      connections,
+      rotation: 0,
+      animation,
+      circuitOrder: [],
+      selectedColor: '#ffffff',
+    }
+    // A state previewed in an older editor was saved with the design; it no longer is
+    const loaded = deserializeDocument({ ...serializeDocument(doc), animation: { ...animation, state: 'error' } })
+
+    expect(loaded.animation).not.toHaveProperty('state')
+    expect(loaded.animation.states.map(s => s.name)).toEqual(['loading', 'success', 'error'])
+    expect(loaded.animation.states[1]!.overrides.map(o => o.targetId)).toEqual(['a', 'b'])
+  })
+})
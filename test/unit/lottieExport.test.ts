@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { serializeDocument } from '../../app/composables/useCanvasDocument'
+import { createDefaultAnimationConfig, useCanvasState } from '../../app/composables/useCanvasState'
+import { exportLottie, findSeamlessLoopCount, hexToLottieColor } from '../../app/composables/useLottieExport'
+
+function defaultDocument(animation: Partial<ReturnType<typeof createDefaultAnimationConfig>> = {}) {
+  const canvas = useCanvasState()
+  return serializeDocument({
+    shapes: canvas.shapes.value,
+    connections: canvas.connections.value,
+    animation: { ...createDefaultAnimationConfig(), ...animation },
+    circuitOrder: [],
+    rotation: 0,
+    selectedColor: canvas.selectedColor.value,
+  })
+}
+
+// Just the parts of the Lottie layers these tests look at
+interface Keyframe { t: number; s: number[] }
+interface Animated { a: number; k: Keyframe[] }
+interface Layer {
+  ind: number
+  ty: number
+  nm: string
+  parent?: number
+  ks: { p: Animated; r: Animated }
+  shapes: Array<{ it: Array<{ ty: string; e?: { k: number }; o?: { a: number } }> }>
+}
+
+describe('exportLottie', () => {
+  it('moves the dot layer along the circuit under a rotation null', () => {
+    const lottie = exportLottie(defaultDocument(), { samples: 60 })
+    const [rotation, ...children] = lottie.layers as unknown as Layer[]
+    const dot = children.find(l => l.nm === 'Dot')!
+    const positions = dot.ks.p.k
+
+    expect(rotation!.ty).toBe(3)
+    expect(children.every(l => l.parent === rotation!.ind)).toBe(true)
+    expect(dot.ks.p.a).toBe(1)
+    expect(positions.length).toBeGreaterThan(60)
+    expect(positions[positions.length - 1]!.t).toBe(lottie.op)
+    expect(JSON.stringify(children.find(l => l.nm === 'Shapes'))).toContain('"ty":"gf"')
+  })
+
+  it('uses trim paths for the snake and ends the rotation on a full turn', () => {
+    const lottie = exportLottie(defaultDocument({ animationMode: 'snake', rotationSpeed: -60 }))
+    const layers = lottie.layers as unknown as Layer[]
+    const snake = layers.find(l => l.nm === 'Snake')!
+    const trim = snake.shapes[0]!.it.find(item => item.ty === 'tm')!
+    const keys = layers[0]!.ks.r.k
+    const degrees = keys[keys.length - 1]!.s[0]! - keys[0]!.s[0]!
+
+    expect(layers.some(l => l.nm === 'Dot')).toBe(false)
+    expect(trim.e?.k).toBe(30)
+    expect(trim.o?.a).toBe(1)
+    expect(degrees).toBeLessThan(0)
+    expect(Math.abs(degrees) % 360).toBeCloseTo(0)
+  })
+})
+
+describe('lottie helpers', () => {
+  it('finds the loop count where the rotation lines up', () => {
+    // 1.5s loops at 60deg/s turn 90deg per loop, so four loops make a full turn
+    expect(findSeamlessLoopCount(1500, 60, 12)).toBe(4)
+    expect(findSeamlessLoopCount(1500, 0, 12)).toBe(1)
+  })
+
+  it('normalizes hex colors', () => {
+    expect(hexToLottieColor('#ff0000')).toEqual([1, 0, 0, 1])
+    expect(hexToLottieColor('#0f0')).toEqual([0, 1, 0, 1])
+  })
+})
@@ -0,0 +1,347 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { effectScope, nextTick, ref } from 'vue'
+import { createDefaultAnimationConfig, useCanvasState } from '../../app/composables/useCanvasState'
+import { PLAYBACK_FRAME_MS, getLapMarkers, sampleAnimation, usePathAnimation } from '../../app/composables/usePathAnimation'
+import type { BaseShape, Connection, LoaderStateName } from '../../app/types/canvas'
+
+// One strongly bent connection between two circles
+function curvedDesign(): { shapes: BaseShape[]; connections: Connection[] } {
+  return {
+    shapes: [
+      { id: 'a', x: 0, y: 0, type: 'circle', radius: 20, fill: '#ffffff' },
+      { id: 'b', x: 200, y: 0, type: 'circle', radius: 20, fill: '#ffffff' },
+    ],
+    connections: [{
+      id: 'c',
+      fromShapeId: 'a',
+      toShapeId: 'b',
+      fromAnchor: { position: 0.25 },
+      toAnchor: { position: 0.75 },
+      stroke: '#ffffff',
+      curveOffset: { x: 60, y: 160 },
+    }],
+  }
+}
+
+function stepLengths(points: Array<{ x: number; y: number }>): number[] {
+  return points.slice(1).map((p, i) => Math.hypot(p.x - points[i]!.x, p.y - points[i]!.y))
+}
+
+function defaultDesign() {
+  const canvas = useCanvasState()
+  return { shapes: canvas.shapes.value, connections: canvas.connections.value }
+}
+
+describe('sampleAnimation', () => {
+  it('returns the same frame for a time and its matching phase', () => {
+    const { shapes, connections } = defaultDesign()
+    const config = createDefaultAnimationConfig()
+    const { duration } = sampleAnimation(shapes, connections, config, { phase: 0 })
+
+    const byTime = sampleAnimation(shapes, connections, config, { time: duration * 1.25 })
+    const byPhase = sampleAnimation(shapes, connections, config, { phase: 0.25 })
+
+    expect(duration).toBeGreaterThan(0)
+    expect(byTime.phase).toBeCloseTo(0.25)
+    expect(byTime.dots).toHaveLength(1)
+    expect(byTime.dots[0]!.x).toBeCloseTo(byPhase.dots[0]!.x)
+    expect(byTime.dots[0]!.y).toBeCloseTo(byPhase.dots[0]!.y)
+    expect(byTime.dots[0]!.connectionId).toBe(byPhase.dots[0]!.connectionId)
+  })
+
+  it('samples the snake and rotation from the same clock', () => {
+    const { shapes, connections } = defaultDesign()
+    const config = { ...createDefaultAnimationConfig(), animationMode: 'snake' as const, rotationSpeed: 90 }
+
+    const frame = sampleAnimation(shapes, connections, config, { time: 500 })
+
+    expect(frame.dots).toHaveLength(0)
+    expect(frame.snakes[0]?.points.length).toBeGreaterThan(2)
+    expect(frame.rotation).toBe(45)
+  })
+
+  it('trails extra dots behind the lead dot and shrinks them', () => {
+    const { shapes, connections } = defaultDesign()
+    const config = { ...createDefaultAnimationConfig(), dotCount: 4, dotSpacing: 0.1, dotFalloff: 0.6 }
+
+    const frame = sampleAnimation(shapes, connections, config, { phase: 0.5 })
+    const trailing = sampleAnimation(shapes, connections, { ...config, dotCount: 1 }, { phase: 0.2 })
+
+    expect(frame.dots).toHaveLength(4)
+    expect(frame.dots.map(d => d.size)).toEqual([8, 6.4, 4.8, 3.2].map(size => expect.closeTo(size)))
+    expect(frame.dots[3]!.opacity).toBeCloseTo(0.4)
+    expect(frame.dots[3]!.x).toBeCloseTo(trailing.dots[0]!.x)
+    expect(frame.dots[3]!.y).toBeCloseTo(trailing.dots[0]!.y)
+  })
+
+  it('moves at a constant pixel speed along curved connections', () => {
+    const { shapes, connections } = curvedDesign()
+    const config = createDefaultAnimationConfig()
+    const points = Array.from({ length: 21 }, (_, i) =>
+      sampleAnimation(shapes, connections, config, { phase: (i / 20) * 0.99 }).dots[0]!)
+    const steps = stepLengths(points)
+
+    expect(Math.max(...steps) / Math.min(...steps)).toBeLessThan(1.02)
+  })
+
+  it('samples the snake evenly along a curve', () => {
+    const { shapes, connections } = curvedDesign()
+    const config = { ...createDefaultAnimationConfig(), animationMode: 'snake' as const, snakeLength: 0.5 }
+    const { snakes: [snake] } = sampleAnimation(shapes, connections, config, { phase: 0.75 })
+    const points = []
+    for (let i = 0; i + 1 < snake!.points.length; i += 2) {
+      points.push({ x: snake!.points[i]!, y: snake!.points[i + 1]! })
+    }
+    const steps = stepLengths(points)
+
+    expect(Math.max(...steps) / Math.min(...steps)).toBeLessThan(1.02)
+  })
+
+  it('runs separate groups of shapes as their own circuits at the same time', () => {
+    const curved = curvedDesign()
+    // A second, shorter line off to the side that shares no shapes with the first
+    const shapes: BaseShape[] = [
+      ...curved.shapes,
+      { id: 'c', x: 0, y: 300, type: 'circle', radius: 20, fill: '#ffffff' },
+      { id: 'd', x: 100, y: 300, type: 'circle', radius: 20, fill: '#ffffff' },
+    ]
+    const connections: Connection[] = [
+      ...curved.connections,
+      { ...curved.connections[0]!, id: 'e', fromShapeId: 'c', toShapeId: 'd', curveOffset: null },
+    ]
+    const single = sampleAnimation(curved.shapes, curved.connections, createDefaultAnimationConfig(), { phase: 0 })
+    const config = {
+      ...createDefaultAnimationConfig(),
+      subCircuits: [
+        { connectionId: 'c', phaseOffset: 0, speedRatio: 1, reversed: false },
+        { connectionId: 'e', phaseOffset: 0.25, speedRatio: 2, reversed: true },
+      ],
+    }
+
+    const frame = sampleAnimation(shapes, connections, config, { phase: 0.1 })
+    const [first, second] = frame.dots
+
+    // The longer circuit still sets the pace, so adding the short one doesn't slow it down
+    expect(frame.duration).toBeCloseTo(single.duration)
+    expect(first!.connectionId).toBe('c')
+    // 0.1 of the loop is 0.2 of a lap at double speed plus the 0.25 offset, walked from d back to c
+    expect(second!.connectionId).toBe('e')
+    expect(second!.x).toBeCloseTo(53)
+    expect(second!.y).toBeCloseTo(300)
+    // The scrubber marks the start of every lap: the slow circuit's one, and the fast one's two
+    expect(getLapMarkers(shapes, connections, config)).toEqual([0, 0.375, 0.875])
+
+    // Timing belongs to a connection, not to the circuit's place in drawing order
+    expect(getLapMarkers(shapes, [connections[1]!], config)).toEqual([0.375, 0.875])
+    // Joining the two circuits keeps the timing of the one drawn first
+    const joined = [...connections, { ...connections[1]!, id: 'f', fromShapeId: 'b', toShapeId: 'c' }]
+    expect(getLapMarkers(shapes, joined, config)).toEqual([0])
+  })
+
+  it('fills the circuit up to a progress value instead of looping', () => {
+    const { shapes, connections } = curvedDesign()
+    const determinate = { ...createDefaultAnimationConfig(), progressMode: 'determinate' as const }
+    const start = sampleAnimation(shapes, connections, { ...determinate, progress: 0 }, { time: 1234 })
+    const end = sampleAnimation(shapes, connections, { ...determinate, progress: 1 }, { time: 1234 })
+    const looping = sampleAnimation(shapes, connections, createDefaultAnimationConfig(), { phase: 0 })
+
+    // Time makes no difference, only the progress value does
+    expect(start.dots[0]!.x).toBeCloseTo(looping.dots[0]!.x)
+    expect(start.dots[0]!.y).toBeCloseTo(looping.dots[0]!.y)
+    expect(end.dots[0]!.x).toBeGreaterThan(start.dots[0]!.x)
+
+    // The snake grows from the start of the path instead of keeping its length
+    const half = sampleAnimation(shapes, connections, { ...determinate, animationMode: 'snake', progress: 0.5 }, { time: 0 })
+    const full = sampleAnimation(shapes, connections, { ...determinate, animationMode: 'snake', progress: 1 }, { time: 0 })
+    const snakeLength = (points: number[]) => {
+      const pairs = points.flatMap((value, i) => (i % 2 === 0 ? [{ x: value, y: points[i + 1]! }] : []))
+      return stepLengths(pairs).reduce((sum, step) => sum + step, 0)
+    }
+    expect(half.snakes).toHaveLength(1)
+    expect(snakeLength(full.snakes[0]!.points)).toBeCloseTo(snakeLength(half.snakes[0]!.points) * 2, -1)
+  })
+
+  it('plays in reverse and ping-pongs with the rotation following along', () => {
+    const { shapes, connections } = curvedDesign()
+    const config = { ...createDefaultAnimationConfig(), rotationSpeed: 90 }
+    const forward = sampleAnimation(shapes, connections, config, { phase: 0.75 })
+    const reverse = sampleAnimation(shapes, connections, { ...config, direction: 'reverse' }, { phase: 0.25 })
+    const alternate = { ...config, direction: 'alternate' as const }
+    const outbound = sampleAnimation(shapes, connections, alternate, { phase: 0.375 })
+    const inbound = sampleAnimation(shapes, connections, alternate, { phase: 0.625 })
+
+    expect(reverse.dots[0]!.x).toBeCloseTo(forward.dots[0]!.x)
+    expect(reverse.rotation).toBeLessThan(0)
+    // There and back at the same speed takes twice as long
+    expect(outbound.duration).toBeCloseTo(forward.duration * 2)
+    expect(outbound.dots[0]!.x).toBeCloseTo(forward.dots[0]!.x)
+    expect(inbound.dots[0]!.x).toBeCloseTo(forward.dots[0]!.x)
+    // The rotation swings out and comes back by the end of the loop
+    expect(inbound.rotation).toBeCloseTo(outbound.rotation)
+    expect(sampleAnimation(shapes, connections, alternate, { time: outbound.duration }).rotation).toBeCloseTo(0)
+  })
+
+  it('rests at each end when ping-pong pauses', () => {
+    const { shapes, connections } = curvedDesign()
+    const config = { ...createDefaultAnimationConfig(), direction: 'alternate-pause' as const }
+    const end = sampleAnimation(shapes, connections, createDefaultAnimationConfig(), { phase: 1 }).dots[0]!
+    const resting = sampleAnimation(shapes, connections, config, { phase: 0.45 }).dots[0]!
+
+    expect(resting.x).toBeCloseTo(end.x)
+    expect(resting.y).toBeCloseTo(end.y)
+  })
+
+  it('keeps the snake body behind its head when running backward', () => {
+    const { shapes, connections } = curvedDesign()
+    const config = { ...createDefaultAnimationConfig(), direction: 'reverse' as const }
+    const dot = sampleAnimation(shapes, connections, config, { phase: 0.5 }).dots[0]!
+    const { snakes: [snake] } = sampleAnimation(shapes, connections, { ...config, animationMode: 'snake' }, { phase: 0.5 })
+    const points = snake!.points
+
+    // Points run tail to head, and the tail is further along the path than the head
+    expect(points[points.length - 2]).toBeCloseTo(dot.x)
+    expect(points[points.length - 1]).toBeCloseTo(dot.y)
+    expect(points[0]).toBeGreaterThan(dot.x)
+  })
+
+  it('draws a plain snake as one piece and a styled one tapering and fading toward the tail', () => {
+    const { shapes, connections } = curvedDesign()
+    connections[0]!.stroke = { type: 'linear', stops: [{ offset: 0, color: '#000000' }, { offset: 1, color: '#ffffff' }] }
+    const config = { ...createDefaultAnimationConfig(), animationMode: 'snake' as const, snakeLength: 0.5 }
+
+    const plain = sampleAnimation(shapes, [{ ...connections[0]!, stroke: '#ffffff' }], config, { phase: 0.75 }).snakes[0]!
+    const styled = sampleAnimation(shapes, connections, { ...config, snakeTaper: 1, snakeFade: 0.8 }, { phase: 0.75 }).snakes[0]!
+    const tail = styled.pieces[0]!
+    const head = styled.pieces[styled.pieces.length - 1]!
+
+    expect(plain.pieces).toHaveLength(1)
+    expect(plain.pieces[0]!.color).toBe('#ffffff')
+    expect(styled.pieces.length).toBeGreaterThan(1)
+    expect(tail.opacity).toBeLessThan(0.3)
+    expect(head.opacity).toBe(1)
+    // The color follows the gradient along the line: darker at the tail, lighter at the head
+    expect(parseInt(tail.color.slice(1, 3), 16)).toBeLessThan(parseInt(head.color.slice(1, 3), 16))
+  })
+
+  it('lights shapes up in turn as the dot reaches them and lets the effect die away', () => {
+    const { shapes, connections } = defaultDesign()
+    const config = {
+      ...createDefaultAnimationConfig(),
+      shapeEffects: {
+        types: ['pulse' as const],
+        trigger: 'enter' as const,
+        duration: 300,
+        easing: { ...createDefaultAnimationConfig().easing, type: 'linear' as const },
+        color: '#ffffff',
+      },
+    }
+    const samples = Array.from({ length: 200 }, (_, i) => sampleAnimation(shapes, connections, config, { phase: i / 200 }).shapeEffects)
+
+    // Every shape on the circuit peaks once per loop (samples are 30ms apart), each at its own moment
+    const peaks = shapes.map((shape) => {
+      const intensities = samples.map(effects => effects[shape.id] ?? 0)
+      expect(Math.max(...intensities)).toBeGreaterThan(0.85)
+      return intensities.indexOf(Math.max(...intensities))
+    })
+    expect(new Set(peaks).size).toBe(shapes.length)
+    for (const shape of shapes) {
+      expect(samples.some(effects => (effects[shape.id] ?? 0) === 0)).toBe(true)
+    }
+
+    // Without effects nothing reacts
+    const still = sampleAnimation(shapes, connections, createDefaultAnimationConfig(), { phase: 0.5 })
+    expect(still.shapeEffects).toEqual({})
+  })
+
+  it('produces an empty frame when there is nothing to animate', () => {
+    const frame = sampleAnimation([], [], createDefaultAnimationConfig(), { time: 1000 })
+
+    expect(frame.duration).toBe(0)
+    expect(frame.dots).toHaveLength(0)
+    expect(frame.snakes).toHaveLength(0)
+  })
+})
+
+describe('usePathAnimation', () => {
+  // Animation frames run on the fake timers, one every 16ms
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] })
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => setTimeout(() => callback(performance.now()), 16))
+    vi.stubGlobal('cancelAnimationFrame', (id: ReturnType<typeof setTimeout>) => clearTimeout(id))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  function play(loaderState = ref<LoaderStateName>('loading')) {
+    const { shapes, connections } = curvedDesign()
+    const config = { ...createDefaultAnimationConfig(), enabled: true, loopDuration: 1000 }
+    const scope = effectScope()
+    const animation = scope.run(() => usePathAnimation(() => connections, () => shapes, () => config, () => [], () => loaderState.value))!
+    return { animation, stop: () => scope.stop() }
+  }
+
+  it('advances with time and holds still while paused', () => {
+    const { animation, stop } = play()
+    vi.advanceTimersByTime(256)
+    expect(animation.loopDuration.value).toBe(1000)
+    expect(animation.phase.value).toBeCloseTo(0.256)
+
+    animation.togglePause()
+    vi.advanceTimersByTime(160)
+    expect(animation.phase.value).toBeCloseTo(0.256)
+
+    animation.togglePause()
+    animation.setPlaybackRate(2)
+    vi.advanceTimersByTime(160)
+    expect(animation.phase.value).toBeCloseTo(0.576)
+    stop()
+  })
+
+  it('seeks within the loop and stays at the end when dragged all the way', () => {
+    const { animation, stop } = play()
+    vi.advanceTimersByTime(1600)
+
+    animation.seek(0.5)
+    expect(animation.phase.value).toBeCloseTo(0.5)
+    animation.seek(1)
+    expect(animation.phase.value).toBeCloseTo(1)
+    stop()
+  })
+
+  it('steps a frame at a time, pausing playback', () => {
+    const { animation, stop } = play()
+    vi.advanceTimersByTime(160)
+    const before = animation.phase.value
+
+    animation.stepFrames(3)
+    expect(animation.isPaused.value).toBe(true)
+    expect(animation.phase.value).toBeCloseTo(before + (3 * PLAYBACK_FRAME_MS) / 1000)
+    animation.stepFrames(-3)
+    vi.advanceTimersByTime(160)
+    expect(animation.phase.value).toBeCloseTo(before)
+    stop()
+  })
+
+  it('stops asking for frames once a stopped state has faded out', async () => {
+    const loaderState = ref<LoaderStateName>('loading')
+    const { animation, stop } = play(loaderState)
+    vi.advanceTimersByTime(160)
+
+    loaderState.value = 'error'
+    await nextTick()
+    vi.advanceTimersByTime(2000)
+    expect(vi.getTimerCount()).toBe(0)
+    const held = animation.phase.value
+
+    loaderState.value = 'loading'
+    await nextTick()
+    vi.advanceTimersByTime(160)
+    expect(vi.getTimerCount()).toBe(1)
+    expect(animation.phase.value).not.toBe(held)
+    expect(animation.animationDots.value.length).toBeGreaterThan(0)
+    stop()
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { CanvasDocumentError, serializeDocument } from '../../app/composables/useCanvasDocument'
+import { createDefaultAnimationConfig, useCanvasState } from '../../app/composables/useCanvasState'
+import { createShareUrl, decodeSharePayload, encodeSharePayload, getSharePayload } from '../../app/composables/useShareLink'
+
+function defaultDocument() {
+  const canvas = useCanvasState()
+  return serializeDocument({
+    shapes: canvas.shapes.value,
+    connections: canvas.connections.value,
+    animation: { ...createDefaultAnimationConfig(), animationMode: 'snake', rotationSpeed: 45 },
+    circuitOrder: [],
+    rotation: 30,
+    selectedColor: canvas.selectedColor.value,
+  })
+}
+
+describe('share links', () => {
+  it('round-trips a design through the URL hash', async () => {
+    const doc = defaultDocument()
+    const url = await createShareUrl(doc, 'https://example.com/editor#old')
+    const payload = getSharePayload(new URL(url).hash)
+
+    expect(url.startsWith('https://example.com/editor#design=')).toBe(true)
+    expect(payload).toMatch(/^[\w-]+$/)
+    expect(payload!.length).toBeLessThan(JSON.stringify(doc).length)
+
+    const decoded = await decodeSharePayload(payload!)
+    expect(decoded.animation).toEqual(doc.animation)
+    expect(decoded.shapes.map(s => s.id)).toEqual(doc.shapes.map(s => s.id))
+    decoded.connections.forEach((connection, i) => {
+      expect(connection.fromAnchor.position).toBeCloseTo(doc.connections[i]!.fromAnchor.position, 4)
+      expect(connection.stroke).toEqual(doc.connections[i]!.stroke)
+    })
+  })
+
+  it('ignores hashes without a design', () => {
+    expect(getSharePayload('')).toBeNull()
+    expect(getSharePayload('#section')).toBeNull()
+  })
+
+  it('rejects damaged and newer links', async () => {
+    const payload = await encodeSharePayload(defaultDocument())
+    await expect(decodeSharePayload(payload.slice(0, payload.length / 2))).rejects.toThrow(CanvasDocumentError)
+    await expect(decodeSharePayload('not*base64')).rejects.toThrow(/damaged/)
+
+    const newer = await encodeSharePayload({ ...defaultDocument(), version: 99 })
+    await expect(decodeSharePayload(newer)).rejects.toThrow(/newer version/)
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { serializeDocument } from '../../app/composables/useCanvasDocument'
+import { createDefaultAnimationConfig, useCanvasState } from '../../app/composables/useCanvasState'
+import { exportAnimatedSvg } from '../../app/composables/useSvgExport'
+
+function defaultDocument(animation: Partial<ReturnType<typeof createDefaultAnimationConfig>> = {}) {
+  const canvas = useCanvasState()
+  return serializeDocument({
+    shapes: canvas.shapes.value,
+    connections: canvas.connections.value,
+    animation: { ...createDefaultAnimationConfig(), ...animation },
+    circuitOrder: [],
+    rotation: 0,
+    selectedColor: canvas.selectedColor.value,
+  })
+}
+
+describe('exportAnimatedSvg', () => {
+  it('animates a dot along the circuit with gradients in defs', () => {
+    const svg = exportAnimatedSvg(defaultDocument())
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true)
+    expect(svg).toContain('<animateMotion')
+    expect(svg).toContain('<linearGradient')
+    expect(svg.match(/<polygon /g)).toHaveLength(3)
+    expect(svg).not.toContain('<script')
+  })
+
+  it('uses a moving dash for the snake and rotates the constellation', () => {
+    const svg = exportAnimatedSvg(defaultDocument({ animationMode: 'snake', rotationSpeed: -90 }))
+
+    expect(svg).toContain('attributeName="stroke-dashoffset"')
+    expect(svg).not.toContain('<animateMotion')
+    expect(svg).toMatch(/type="rotate" from="0 [\d.]+ [\d.]+" to="-360 [\d.]+ [\d.]+" dur="4s"/)
+  })
+
+  it('splits a tapered, gradient snake into bands with caps only on its ends', () => {
+    const svg = exportAnimatedSvg(defaultDocument({
+      animationMode: 'snake',
+      snakeTaper: 0.5,
+      snakeColorMode: 'gradient',
+      snakeCap: 'round',
+    }))
+    const widths = [...svg.matchAll(/stroke-width="([\d.]+)" stroke-linecap="(\w+)"/g)]
+      .filter(match => match[1] !== '3')
+
+    expect(widths).toHaveLength(8)
+    expect(widths.map(match => match[2])).toEqual(['round', 'butt', 'butt', 'butt', 'butt', 'butt', 'butt', 'round'])
+    expect(Number(widths[0]![1])).toBeLessThan(Number(widths[7]![1]))
+    expect(svg).not.toContain('attributeName="stroke"')
+  })
+
+  it('pulses and glows every shape the dot passes through', () => {
+    const animation = createDefaultAnimationConfig()
+    const svg = exportAnimatedSvg(defaultDocument({
+      shapeEffects: { ...animation.shapeEffects, types: ['pulse', 'glow'] },
+    }))
+
+    expect(svg.match(/type="scale"/g)).toHaveLength(3)
+    expect(svg.match(/<filter id="loader-shape-glow-/g)).toHaveLength(3)
+    expect(svg.match(/filter="url\(#loader-shape-glow-\d+\)"/g)).toHaveLength(3)
+    expect(exportAnimatedSvg(defaultDocument())).not.toContain('type="scale"')
+  })
+
+  it('animates a separate group of shapes as its own circuit with its own timing', () => {
+    const doc = defaultDocument({
+      loopDuration: 2000,
+      subCircuits: [{ connectionId: 'ring', phaseOffset: 0.25, speedRatio: 2, reversed: false }],
+    })
+    doc.shapes.push(
+      { id: 'ring-a', x: 400, y: 400, type: 'circle', radius: 20, fill: '#ffffff' },
+      { id: 'ring-b', x: 500, y: 400, type: 'circle', radius: 20, fill: '#ffffff' }
+    )
+    doc.connections.push({
+      id: 'ring',
+      fromShapeId: 'ring-a',
+      toShapeId: 'ring-b',
+      fromAnchor: { position: 0.25 },
+      toAnchor: { position: 0.75 },
+      stroke: '#ffffff',
+      curveOffset: null,
+    })
+
+    const motions = exportAnimatedSvg(doc).match(/<animateMotion [^>]*>/g) ?? []
+
+    expect(motions).toHaveLength(2)
+    expect(motions[0]).toContain('dur="2s"')
+    expect(motions[0]).not.toContain('begin=')
+    expect(motions[1]).toContain('dur="1s"')
+    expect(motions[1]).toContain('begin="-0.25s"')
+  })
+})
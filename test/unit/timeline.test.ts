@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { createDefaultAnimationConfig, getConnectionGeometry } from '../../app/composables/useCanvasState'
+import { createDefaultEasing } from '../../app/composables/useEasing'
+import { interpolateColor } from '../../app/composables/useInterpolation'
+import { sampleAnimation } from '../../app/composables/usePathAnimation'
+import { exportAnimatedSvg } from '../../app/composables/useSvgExport'
+import { applyTimeline, getTrackValue, removeKeyframe, setKeyframe } from '../../app/composables/useTimeline'
+import type { BaseShape, CanvasDocument, Connection, KeyframeValue, TimelineTrack } from '../../app/types/canvas'
+
+function design(): { shapes: BaseShape[]; connections: Connection[] } {
+  return {
+    shapes: [
+      { id: 'a', x: 0, y: 0, type: 'circle', radius: 20, fill: '#ff0000' },
+      { id: 'b', x: 200, y: 0, type: 'square', width: 40, height: 40, fill: '#0000ff' },
+    ],
+    connections: [{
+      id: 'c',
+      fromShapeId: 'a',
+      toShapeId: 'b',
+      fromAnchor: { position: 0.25 },
+      toAnchor: { position: 0.75 },
+      stroke: '#ffffff',
+      curveOffset: null,
+    }],
+  }
+}
+
+function track(targetId: string, property: TimelineTrack['property'], keys: Array<[number, KeyframeValue]>): TimelineTrack {
+  return {
+    targetId,
+    property,
+    keyframes: keys.map(([offset, value]) => ({ offset, value, easing: createDefaultEasing() })),
+  }
+}
+
+describe('timeline', () => {
+  it('holds before the first keyframe and after the last, and blends in between', () => {
+    const x = track('a', 'x', [[0.25, 0], [0.75, 100]])
+
+    expect(getTrackValue(x, 0)).toBe(0)
+    expect(getTrackValue(x, 0.5)).toBeCloseTo(50)
+    expect(getTrackValue(x, 1)).toBe(100)
+  })
+
+  it('blends gradients stop by stop, treating a solid color as a flat gradient', () => {
+    const gradient = {
+      type: 'linear' as const,
+      angle: 0,
+      stops: [{ offset: 0, color: '#000000' }, { offset: 1, color: '#ffffff' }],
+    }
+    const halfway = interpolateColor('#ff0000', gradient, 0.5)
+
+    expect(halfway).toEqual({
+      type: 'linear',
+      angle: 0,
+      stops: [{ offset: 0, color: '#800000' }, { offset: 1, color: '#ff8080' }],
+    })
+  })
+
+  it('applies keyframed size, opacity and curve to copies of the scene', () => {
+    const { shapes, connections } = design()
+    const timeline = [
+      track('a', 'size', [[0, 1], [1, 2]]),
+      track('b', 'opacity', [[0, 1], [1, 0]]),
+      track('c', 'curveOffset', [[0, null], [1, { x: 0, y: 80 }]]),
+    ]
+    const scene = applyTimeline(shapes, connections, timeline, 0.5)
+
+    expect(scene.shapes[0]!.radius).toBeCloseTo(30)
+    expect(scene.shapes[1]!.opacity).toBeCloseTo(0.5)
+    expect(scene.connections[0]!.curveOffset).toEqual({ x: 0, y: 40 })
+    expect(shapes[0]!.radius).toBe(20)
+  })
+
+  it('keeps keyframes sorted and drops tracks left empty', () => {
+    const easing = createDefaultEasing()
+    let timeline = setKeyframe([], 'a', 'x', { offset: 0.5, value: 10, easing })
+    timeline = setKeyframe(timeline, 'a', 'x', { offset: 0, value: 0, easing })
+    timeline = setKeyframe(timeline, 'a', 'x', { offset: 0.5, value: 20, easing })
+
+    expect(timeline[0]!.keyframes.map(k => [k.offset, k.value])).toEqual([[0, 0], [0.5, 20]])
+    expect(removeKeyframe(removeKeyframe(timeline, 'a', 'x', 0), 'a', 'x', 0)).toEqual([])
+  })
+
+  it('moves shapes in step with the dot and exports the motion', () => {
+    const { shapes, connections } = design()
+    const animation = { ...createDefaultAnimationConfig(), timeline: [track('b', 'y', [[0, 0], [1, 100]])] }
+    const frame = sampleAnimation(shapes, connections, animation, { phase: 0.5 })
+
+    expect(frame.shapes[1]!.y).toBeCloseTo(50)
+    // The line follows the shape it ends on
+    const start = getConnectionGeometry(connections[0]!, shapes)!
+    const moved = getConnectionGeometry(frame.connections[0]!, frame.shapes)!
+    expect(moved.to.y - start.to.y).toBeCloseTo(50)
+
+    const doc: CanvasDocument = { version: 1, shapes, connections, rotation: 0, animation, circuitOrder: [], selectedColor: '#ffffff' }
+    const svg = exportAnimatedSvg(doc, { samples: 8 })
+    expect(svg).toMatch(/<animateTransform attributeName="transform" type="translate"/)
+    expect(svg).toMatch(/<animate attributeName="d"/)
+  })
+})